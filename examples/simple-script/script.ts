@@ -1,6 +1,7 @@
 import {
   LogicalReplicationStream,
   PgOutputDecoderStream,
+  ReplicationAdmin,
 } from "@prisma/pulse-cdc-pg";
 //! pg doesn't support ESM and requires a default export
 import pg from "pg";
@@ -14,22 +15,17 @@ const SLOT_NAME = "my_replication_slot";
 const client = new pg.Client(CONNECTION_STRING);
 try {
   await client.connect();
+  const admin = new ReplicationAdmin(client);
   // create publication
   console.info("creating publication...");
-  await client.query(`DROP PUBLICATION IF EXISTS "${PUBLICATION_NAME}"`);
-  await client.query(`CREATE PUBLICATION "${PUBLICATION_NAME}" FOR ALL TABLES`);
+  await admin.dropPublication(PUBLICATION_NAME, { ifExists: true });
+  await admin.createPublication(PUBLICATION_NAME, { allTables: true });
   console.info("created publication");
   // create replication slot
   console.info("creating replication slot...");
-  await client.query(
-    "SELECT pg_drop_replication_slot($1) FROM pg_replication_slots WHERE slot_name = $1",
-    [SLOT_NAME],
-  );
-  const result = await client.query(
-    "SELECT lsn FROM pg_create_logical_replication_slot($1, 'pgoutput')",
-    [SLOT_NAME],
-  );
-  console.info("created replication slot", result.rows.at(0));
+  await admin.dropReplicationSlot(SLOT_NAME, { ifExists: true });
+  const result = await admin.createReplicationSlot(SLOT_NAME);
+  console.info("created replication slot", result);
 } finally {
   await client.end();
 }
@@ -1,32 +1,25 @@
+import { Lsn, type LsnLike } from "./Lsn.js";
+
 /** PostgreSQL epoch at 2000-01-01T00:00:00Z in milliseconds. */
 const EPOCH_MS = 946684800000;
 
 /**
  * Standby status update packet. Used to inform the sender that the standby
- * has successfully processed up to the specified WAL position.
+ * has successfully processed up to the specified WAL position. Without a
+ * position, the packet reports invalid positions that the server ignores,
+ * such as to reply to a keepalive before anything was processed.
  *
  * @see {@link https://www.postgresql.org/docs/current/protocol-replication.html#PROTOCOL-REPLICATION-STANDBY-STATUS-UPDATE PostgreSQL docs}
  */
 export class AcknowledgePacket {
-  readonly #lsn: string;
+  readonly #lsn: Lsn | null;
 
-  constructor(lsn: string) {
-    this.#lsn = lsn;
+  constructor(lsn: LsnLike | null) {
+    this.#lsn = lsn === null ? null : Lsn.from(lsn);
   }
 
   get buffer() {
-    const slice = this.#lsn.split("/");
-    let [upperWAL, lowerWAL] = [
-      parseInt(slice[0]!, 16),
-      parseInt(slice[1]!, 16),
-    ];
-
-    if (lowerWAL === 0xffffffff) {
-      upperWAL = upperWAL + 1;
-      lowerWAL = 0;
-    } else {
-      lowerWAL = lowerWAL + 1;
-    }
+    const { upper: upperWAL, lower: lowerWAL } = this.#lsn?.add(1) ?? Lsn.ZERO;
 
     const response = new Uint8Array(34);
     const view = new DataView(response.buffer);
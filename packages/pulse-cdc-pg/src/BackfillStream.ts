@@ -0,0 +1,352 @@
+import pg, { type Client } from "pg";
+import { to } from "pg-copy-streams";
+import { readCopyTextRows } from "./copyText.js";
+import {
+  LogicalReplicationStream,
+  type LogicalReplicationStreamInit,
+} from "./LogicalReplicationStream.js";
+import type { LsnLike } from "./Lsn.js";
+import type { PgoutputRead, PgoutputRelation } from "./messages.js";
+import type { PgoutputDecoderInit } from "./PgoutputDecoder.js";
+import {
+  PgOutputDecoderStream,
+  type WalPgoutputMessage,
+} from "./PgoutputDecoderStream.js";
+
+export interface SnapshotProgress {
+  /** The LSN at which the replication slot became consistent. */
+  consistentPoint: string;
+  /** Tables whose rows were all read, formatted as `schema.name`. */
+  completedTables: string[];
+}
+
+/** Durable storage for the progress of the initial snapshot. */
+export interface SnapshotProgressStore {
+  /** Loads the saved progress, or `null` if no snapshot was started. */
+  load(): Promise<SnapshotProgress | null>;
+  save(progress: SnapshotProgress): Promise<void>;
+}
+
+export interface SnapshotWalMessage {
+  type: "snapshot";
+  /** The consistent point of the slot, where live streaming starts. */
+  lsn: string;
+  message: PgoutputRead;
+}
+
+export type BackfillMessage = SnapshotWalMessage | WalPgoutputMessage;
+
+export interface BackfillStreamInit
+  extends Omit<LogicalReplicationStreamInit, "lsn">,
+    PgoutputDecoderInit {
+  /**
+   * Store of the tables read so far. Without a store, the snapshot cannot be
+   * resumed after the stream is interrupted.
+   */
+  progressStore?: SnapshotProgressStore;
+}
+
+interface PublicationTableRow {
+  schemaname: string;
+  tablename: string;
+  /** Published columns. Available in PG15+. */
+  attnames?: string[];
+  /** Row filter expression. Available in PG15+. */
+  rowfilter?: string | null;
+}
+
+interface RelationColumnRow {
+  oid: number;
+  replica_identity: "d" | "n" | "f" | "i";
+  name: string;
+  type_oid: number;
+  type_mod: number;
+  type_schema: string;
+  type_name: string;
+  is_key: boolean;
+}
+
+/** Lowest OID of types that are not built in, as checked by pgoutput. */
+const FIRST_GENERIC_OBJECT_ID = 10000;
+
+const REPLICA_IDENTITIES = {
+  d: "default",
+  n: "nothing",
+  f: "full",
+  i: "index",
+} as const;
+
+const SELECT_RELATION_COLUMNS = `
+  SELECT c.oid, c.relreplident AS replica_identity, a.attname AS name,
+    a.atttypid AS type_oid, a.atttypmod AS type_mod,
+    tn.nspname AS type_schema, t.typname AS type_name,
+    COALESCE(a.attnum = ANY(i.indkey), c.relreplident = 'f') AS is_key
+  FROM pg_class c
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  JOIN pg_attribute a ON a.attrelid = c.oid
+  JOIN pg_type t ON t.oid = a.atttypid
+  JOIN pg_namespace tn ON tn.oid = t.typnamespace
+  LEFT JOIN pg_index i ON i.indrelid = c.oid AND CASE c.relreplident
+    WHEN 'd' THEN i.indisprimary
+    WHEN 'i' THEN i.indisreplident
+    ELSE false
+  END
+  WHERE n.nspname = $1 AND c.relname = $2
+    AND a.attnum > 0 AND NOT a.attisdropped AND a.attgenerated = ''
+  ORDER BY a.attnum
+`;
+
+/**
+ * Implementation of `ReadableStream` that reads the existing rows of all
+ * published tables before streaming changes, without missing or repeating
+ * changes in between.
+ *
+ * The replication slot is created with an exported snapshot, and each
+ * published table is copied within that snapshot. The rows are emitted as
+ * `read` messages, shaped the same as `insert` messages. Once all tables were
+ * read, changes are streamed from the consistent point of the slot, which
+ * includes exactly the changes committed after the snapshot.
+ *
+ * With a `progressStore`, an interrupted snapshot resumes by reading only the
+ * tables that were not read completely. The exported snapshot does not
+ * outlive the connection that created the slot, so the remaining tables are
+ * read from a new snapshot, and changes to those tables committed between the
+ * two snapshots are streamed again after their rows. Applying changes in
+ * order still results in the latest state of each row.
+ *
+ * The stream reads a row only when requested, so the progress of a table is
+ * saved once the last row of the table was read and the next message is
+ * requested.
+ */
+export class BackfillStream extends ReadableStream<BackfillMessage> {
+  readonly #decoderInit: PgoutputDecoderInit;
+  readonly #progressStore: SnapshotProgressStore | null;
+  readonly #replicationInit: Omit<LogicalReplicationStreamInit, "lsn">;
+  #replication: LogicalReplicationStream | null = null;
+
+  constructor(
+    init: BackfillStreamInit,
+    queuingStrategy: QueuingStrategy<BackfillMessage> = { highWaterMark: 0 },
+  ) {
+    let messages: AsyncGenerator<BackfillMessage> | undefined;
+    super(
+      {
+        pull: async (controller) => {
+          messages ??= this.#messages();
+          const next = await messages.next();
+          if (next.done) {
+            controller.close();
+          } else {
+            controller.enqueue(next.value);
+          }
+        },
+        cancel: async () => {
+          // disposing first ends a pending read of the replication stream,
+          // which would otherwise block returning from the generator
+          await this.dispose();
+          await messages?.return(undefined);
+        },
+      },
+      queuingStrategy,
+    );
+
+    const { binaryReceivers, progressStore, types, ...replicationInit } = init;
+    this.#decoderInit = {
+      ...(binaryReceivers && { binaryReceivers }),
+      ...(types && { types }),
+    };
+    this.#progressStore = progressStore ?? null;
+    this.#replicationInit = replicationInit;
+  }
+
+  [Symbol.asyncDispose]() {
+    return this.dispose();
+  }
+
+  /**
+   * Acknowledges changes up to the LSN once live streaming started. See
+   * `LogicalReplicationStream.acknowledge()`. Snapshot rows do not need to be
+   * acknowledged, and acknowledging before streaming started has no effect.
+   */
+  async acknowledge(lsn: LsnLike) {
+    await this.#replication?.acknowledge(lsn);
+  }
+
+  async dispose() {
+    await this.#replication?.dispose();
+  }
+
+  async *#messages(): AsyncGenerator<BackfillMessage> {
+    const consistentPoint = yield* this.#snapshot();
+
+    this.#replication = new LogicalReplicationStream({
+      ...this.#replicationInit,
+      lsn: consistentPoint,
+    });
+    const reader = this.#replication
+      .pipeThrough(new PgOutputDecoderStream(this.#decoderInit))
+      .getReader();
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          return;
+        }
+        yield value;
+      }
+    } finally {
+      await reader.cancel();
+    }
+  }
+
+  /**
+   * Reads the rows of each published table within the snapshot.
+   *
+   * @returns The consistent point of the replication slot.
+   */
+  async *#snapshot(): AsyncGenerator<SnapshotWalMessage, string> {
+    const { clientConfig, publicationName } = this.#replicationInit;
+    const progressStore = this.#progressStore;
+
+    const client = new pg.Client(clientConfig);
+    await client.connect();
+    try {
+      await client.query("BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY");
+
+      let progress = (await progressStore?.load()) ?? null;
+      if (!progress) {
+        const slot = await this.#createReplicationSlot(client);
+        progress = {
+          consistentPoint: slot.consistentPoint,
+          completedTables: [],
+        };
+        await progressStore?.save(progress);
+      }
+      const { consistentPoint } = progress;
+      const completed = new Set(progress.completedTables);
+
+      const tables = await client.query<{ table: PublicationTableRow }>(
+        `SELECT to_jsonb(p) AS table FROM pg_publication_tables p WHERE pubname = $1 ORDER BY schemaname, tablename`,
+        [publicationName],
+      );
+      for (const { table } of tables.rows) {
+        const key = `${table.schemaname}.${table.tablename}`;
+        if (completed.has(key)) {
+          continue;
+        }
+
+        const relation = await this.#getRelation(client, table);
+        const columns = relation.columns
+          .map((x) => pg.escapeIdentifier(x.name))
+          .join(", ");
+        const from = `${pg.escapeIdentifier(table.schemaname)}.${pg.escapeIdentifier(table.tablename)}`;
+        const where = table.rowfilter ? ` WHERE ${table.rowfilter}` : "";
+
+        const copy = client.query(
+          to(`COPY (SELECT ${columns} FROM ${from}${where}) TO STDOUT`),
+        );
+        for await (const values of readCopyTextRows(copy)) {
+          const tuple: Record<string, unknown> = {};
+          relation.columns.forEach(({ name, parser }, i) => {
+            const value = values[i];
+            tuple[name] = value == null ? null : parser(value);
+          });
+          yield {
+            type: "snapshot",
+            lsn: consistentPoint,
+            message: { tag: "read", relation, new: tuple },
+          };
+        }
+
+        completed.add(key);
+        await progressStore?.save({
+          consistentPoint,
+          completedTables: [...completed],
+        });
+      }
+
+      await client.query("COMMIT");
+      return consistentPoint;
+    } finally {
+      await client.end();
+    }
+  }
+
+  /**
+   * Creates the replication slot over a replication connection, then imports
+   * the exported snapshot into the transaction of `client`. The snapshot is
+   * only available until the replication connection is closed.
+   */
+  async #createReplicationSlot(client: Client) {
+    const { clientConfig, slotName, twoPhase = false } = this.#replicationInit;
+
+    const replication = new pg.Client({
+      ...clientConfig,
+      // @ts-expect-error this field is accepted but not in the types
+      replication: "database",
+    });
+    await replication.connect();
+    try {
+      const slot = pg.escapeIdentifier(slotName);
+      // the options list syntax is required for two-phase slots (PG15+),
+      // the older syntax is used otherwise to support older servers
+      const result = await replication.query<{
+        consistent_point: string;
+        snapshot_name: string;
+      }>(
+        twoPhase
+          ? `CREATE_REPLICATION_SLOT ${slot} LOGICAL pgoutput (SNAPSHOT 'export', TWO_PHASE true)`
+          : `CREATE_REPLICATION_SLOT ${slot} LOGICAL pgoutput EXPORT_SNAPSHOT`,
+      );
+      const row = result.rows[0]!;
+      await client.query(
+        `SET TRANSACTION SNAPSHOT ${pg.escapeLiteral(row.snapshot_name)}`,
+      );
+      return { consistentPoint: row.consistent_point };
+    } finally {
+      await replication.end();
+    }
+  }
+
+  /**
+   * Reads the relation of a published table from the catalog, matching the
+   * relation sent by pgoutput.
+   */
+  async #getRelation(
+    client: Client,
+    table: PublicationTableRow,
+  ): Promise<PgoutputRelation> {
+    const { types = pg.types } = this.#decoderInit;
+
+    const result = await client.query<RelationColumnRow>(
+      SELECT_RELATION_COLUMNS,
+      [table.schemaname, table.tablename],
+    );
+    const rows = result.rows.filter(
+      (row) => !table.attnames || table.attnames.includes(row.name),
+    );
+
+    const columns = rows.map((row) => ({
+      flags: row.is_key ? 1 : 0,
+      name: row.name,
+      typeOid: row.type_oid,
+      typeMod: row.type_mod,
+      // pgoutput only describes types that are not built in
+      ...(row.type_oid < FIRST_GENERIC_OBJECT_ID
+        ? { typeSchema: null, typeName: null }
+        : { typeSchema: row.type_schema, typeName: row.type_name }),
+      parser: types.getTypeParser(row.type_oid),
+    }));
+
+    return {
+      tag: "relation",
+      oid: rows[0]?.oid ?? 0,
+      schema: table.schemaname,
+      name: table.tablename,
+      replicaIdentity: REPLICA_IDENTITIES[rows[0]?.replica_identity ?? "d"],
+      columns,
+      keyColumns: columns.filter((x) => x.flags & 0b1).map((x) => x.name),
+      version: 1,
+    };
+  }
+}
@@ -142,3 +142,17 @@ test("readTime", () => {
     /Offset is outside the bounds of the DataView/,
   );
 });
+
+test("readLsn", () => {
+  const buffer = new Uint8Array([
+    0x00, 0x00, 0x00, 0x16, 0xb3, 0x74, 0xd8, 0x48, 0x00, 0x00, 0x00, 0x00,
+    0x00, 0x00, 0x00, 0x1a,
+  ]);
+
+  const reader = new BinaryReader(buffer);
+  expect(reader.readLsn()).toBe("16/B374D848");
+  expect(reader.readLsn()).toBe("0/1A");
+  expect(() => reader.readLsn()).toThrow(
+    /Offset is outside the bounds of the DataView/,
+  );
+});
@@ -1,3 +1,5 @@
+import { Lsn } from "./Lsn.js";
+
 const textDecoder = new TextDecoder();
 
 /**
@@ -61,10 +63,7 @@ export class BinaryReader {
   readLsn() {
     const h = this.readUint32();
     const l = this.readUint32();
-
-    const h2 = h.toString(16).padStart(1, "0");
-    const l2 = l.toString(16).padStart(1, "0");
-    return `${h2}/${l2}`.toUpperCase();
+    return Lsn.fromParts(h, l).toString();
   }
 
   readString() {
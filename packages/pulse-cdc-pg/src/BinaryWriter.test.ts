@@ -0,0 +1,43 @@
+import { expect, test } from "vitest";
+import { BinaryReader } from "./BinaryReader.js";
+import { BinaryWriter } from "./BinaryWriter.js";
+
+test("writes values read by BinaryReader", () => {
+  const time = new Date("2024-01-01T12:34:56.789Z");
+  const bytes = new BinaryWriter()
+    .writeUint8(0xff)
+    .writeInt16(0x1234)
+    .writeInt32(-66052)
+    .writeUint32(0xfffefdfc)
+    .writeUint64(18446460386757245432n)
+    .writeLsn("16/B374D848")
+    .writeLsn(null)
+    .writeString("first")
+    .writeLengthEncodedString("second")
+    .writeTime(time)
+    .write(new Uint8Array([1, 2, 3]))
+    .toUint8Array();
+
+  const reader = new BinaryReader(bytes);
+  expect(reader.readUint8()).toBe(0xff);
+  expect(reader.readInt16()).toBe(0x1234);
+  expect(reader.readInt32()).toBe(-66052);
+  expect(reader.readUint32()).toBe(0xfffefdfc);
+  expect(reader.readUint64()).toBe(18446460386757245432n);
+  expect(reader.readLsn()).toBe("16/B374D848");
+  expect(reader.readLsn()).toBe("0/0");
+  expect(reader.readString()).toBe("first");
+  expect(reader.readLengthEncodedString()).toBe("second");
+  expect(reader.readTime()).toEqual(time);
+  expect(reader.read(3)).toEqual(new Uint8Array([1, 2, 3]));
+  expect(() => reader.readUint8()).toThrow(
+    /Offset is outside the bounds of the DataView/,
+  );
+});
+
+test("grows the buffer", () => {
+  const bytes = Uint8Array.from({ length: 1000 }, (_, i) => i % 256);
+
+  const writer = new BinaryWriter().writeUint8(0x77).write(bytes);
+  expect(writer.toUint8Array()).toEqual(new Uint8Array([0x77, ...bytes]));
+});
@@ -0,0 +1,97 @@
+import { Lsn, type LsnLike } from "./Lsn.js";
+
+const textEncoder = new TextEncoder();
+
+/** PostgreSQL epoch at 2000-01-01T00:00:00Z in milliseconds. */
+const EPOCH_MS = 946684800000;
+
+/**
+ * Utility for writing PostgreSQL binary data, the counterpart of
+ * `BinaryReader`. The buffer grows as data is written.
+ *
+ * @see {@link https://www.postgresql.org/docs/current/protocol-message-types.html PostgreSQL docs}
+ */
+export class BinaryWriter {
+  #buffer = new Uint8Array(64);
+  #p = 0;
+  #view = new DataView(this.#buffer.buffer);
+
+  /** Returns a copy of the bytes written so far. */
+  toUint8Array() {
+    return this.#buffer.slice(0, this.#p);
+  }
+
+  write(bytes: Uint8Array): this {
+    this.#reserve(bytes.length);
+    this.#buffer.set(bytes, this.#p);
+    this.#p += bytes.length;
+    return this;
+  }
+
+  writeInt16(value: number): this {
+    this.#reserve(2);
+    this.#view.setInt16(this.#p, value);
+    this.#p += 2;
+    return this;
+  }
+
+  writeInt32(value: number): this {
+    this.#reserve(4);
+    this.#view.setInt32(this.#p, value);
+    this.#p += 4;
+    return this;
+  }
+
+  writeLengthEncodedString(value: string): this {
+    const bytes = textEncoder.encode(value);
+    return this.writeInt32(bytes.length).write(bytes);
+  }
+
+  /** Writes the LSN, or `0/0` for `null`. */
+  writeLsn(value: LsnLike | null): this {
+    const { upper, lower } = value === null ? Lsn.ZERO : Lsn.from(value);
+    return this.writeUint32(upper).writeUint32(lower);
+  }
+
+  writeString(value: string): this {
+    return this.write(textEncoder.encode(value)).writeUint8(0x00);
+  }
+
+  writeTime(value: Date): this {
+    // microseconds since the PostgreSQL epoch
+    return this.writeUint64(BigInt(value.getTime() - EPOCH_MS) * 1000n);
+  }
+
+  writeUint8(value: number): this {
+    this.#reserve(1);
+    this.#view.setUint8(this.#p, value);
+    this.#p += 1;
+    return this;
+  }
+
+  writeUint32(value: number): this {
+    this.#reserve(4);
+    this.#view.setUint32(this.#p, value);
+    this.#p += 4;
+    return this;
+  }
+
+  writeUint64(value: bigint): this {
+    this.#reserve(8);
+    this.#view.setBigUint64(this.#p, value);
+    this.#p += 8;
+    return this;
+  }
+
+  #reserve(n: number) {
+    if (this.#p + n <= this.#buffer.length) {
+      return;
+    }
+    const buffer = new Uint8Array(
+      Math.max(this.#buffer.length * 2, this.#p + n),
+    );
+    buffer.set(this.#buffer);
+    this.#buffer = buffer;
+    this.#view = new DataView(buffer.buffer);
+  }
+}
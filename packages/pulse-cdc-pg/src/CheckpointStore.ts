@@ -0,0 +1,16 @@
+import type { Lsn } from "./Lsn.js";
+
+/**
+ * Durable storage for the LSN up to which the application has processed
+ * changes. Unlike the `confirmed_flush_lsn` of a replication slot, which is
+ * reported asynchronously, a checkpoint is saved by the application before
+ * acknowledging the LSN and can be read back when the application restarts.
+ * Replication restarts after the saved LSN, the same position acknowledging
+ * the LSN confirms to the server.
+ */
+export interface CheckpointStore {
+  /** Loads the last saved LSN, or `null` if no checkpoint was saved. */
+  load(): Promise<Lsn | null>;
+  /** Saves the LSN up to which changes were processed. */
+  save(lsn: Lsn): Promise<void>;
+}
@@ -0,0 +1,256 @@
+import { afterEach, beforeEach, expect, test, vi } from "vitest";
+import { DebeziumStream } from "./DebeziumStream.js";
+import {
+  collect,
+  column,
+  relation,
+  systemTime,
+  wal,
+} from "../test/test-utils.js";
+
+const NOW = new Date("2024-01-02T00:00:00Z");
+
+const users = relation("users", {
+  columns: [
+    column("id", 23),
+    column("name"),
+    column("created_at", 1184),
+    column("data", 3802),
+    column("avatar", 17),
+  ],
+});
+
+beforeEach(() => {
+  vi.spyOn(Date, "now").mockReturnValue(NOW.getTime());
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+const row = {
+  id: 1,
+  name: "alice",
+  created_at: new Date("2024-01-01T12:00:00Z"),
+  data: { admin: true },
+  avatar: Uint8Array.of(1, 2, 3),
+};
+
+const source = {
+  version: "pulse-cdc-pg",
+  connector: "postgresql",
+  name: "server",
+  ts_ms: systemTime.getTime(),
+  snapshot: "false",
+  db: "pulse",
+  sequence: null,
+  schema: "public",
+  table: "users",
+  txId: 750,
+  lsn: 0x20,
+  xmin: null,
+};
+
+test("formats changes as Debezium events", async () => {
+  const events = await collect(
+    new DebeziumStream({ database: "pulse", serverName: "server" }),
+    [
+      wal({
+        tag: "begin",
+        commitLsn: "0/40",
+        commitTime: systemTime,
+        xid: 750,
+      }),
+      wal(users),
+      wal({ tag: "insert", relation: users, new: row }, "0/20"),
+      wal(
+        {
+          tag: "update",
+          relation: users,
+          key: null,
+          old: null,
+          new: { ...row, name: "bob" },
+        },
+        "0/20",
+      ),
+      wal(
+        { tag: "delete", relation: users, key: { id: 1 }, old: null },
+        "0/20",
+      ),
+      wal(
+        {
+          tag: "truncate",
+          cascade: false,
+          restartIdentity: false,
+          relations: [users],
+        },
+        "0/20",
+      ),
+      wal({
+        tag: "commit",
+        flags: 0,
+        commitLsn: "0/40",
+        commitEndLsn: "0/48",
+        commitTime: systemTime,
+      }),
+    ],
+  );
+
+  const after = {
+    id: 1,
+    name: "alice",
+    created_at: "2024-01-01T12:00:00.000Z",
+    data: '{"admin":true}',
+    avatar: "AQID",
+  };
+  expect(events).toEqual([
+    {
+      key: { id: 1 },
+      value: { before: null, after, source, op: "c", ts_ms: NOW.getTime() },
+    },
+    {
+      key: { id: 1 },
+      value: {
+        before: null,
+        after: { ...after, name: "bob" },
+        source,
+        op: "u",
+        ts_ms: NOW.getTime(),
+      },
+    },
+    {
+      key: { id: 1 },
+      value: {
+        before: { id: 1 },
+        after: null,
+        source,
+        op: "d",
+        ts_ms: NOW.getTime(),
+      },
+    },
+    {
+      key: null,
+      value: {
+        before: null,
+        after: null,
+        source,
+        op: "t",
+        ts_ms: NOW.getTime(),
+      },
+    },
+  ]);
+});
+
+test("keeps the precision of int8 and numeric values", async () => {
+  const numbers = relation("users", {
+    columns: [column("id", 20), column("ids", 1016), column("total", 1700)],
+  });
+  const [event] = await collect(
+    new DebeziumStream({
+      database: "pulse",
+      includeSchema: true,
+      serverName: "server",
+    }),
+    [
+      {
+        type: "snapshot",
+        lsn: "0/20",
+        message: {
+          tag: "read",
+          relation: numbers,
+          new: {
+            id: 9007199254740993n,
+            ids: ["1", 9007199254740993n],
+            total: "12345678901234567890.12",
+          },
+        },
+      },
+    ],
+  );
+
+  expect(event).toMatchObject({
+    key: { id: 9007199254740993n },
+    value: {
+      payload: {
+        after: {
+          id: 9007199254740993n,
+          ids: [1, 9007199254740993n],
+          total: "12345678901234567890.12",
+        },
+      },
+    },
+  });
+  expect(event?.value).toHaveProperty(
+    ["schema", "fields", 0, "fields"],
+    [
+      { type: "int64", optional: false, field: "id" },
+      {
+        type: "array",
+        items: { type: "int64", optional: true },
+        optional: true,
+        field: "ids",
+      },
+      { type: "string", optional: true, field: "total" },
+    ],
+  );
+});
+
+test("formats snapshot reads with the schema", async () => {
+  const [event] = await collect(
+    new DebeziumStream({
+      database: "pulse",
+      includeSchema: true,
+      serverName: "server",
+    }),
+    [
+      {
+        type: "snapshot",
+        lsn: "0/20",
+        message: { tag: "read", relation: users, new: row },
+      },
+    ],
+  );
+
+  expect(event).toMatchObject({
+    key: { id: 1 },
+    value: {
+      payload: {
+        op: "r",
+        source: { snapshot: "true", ts_ms: NOW.getTime(), txId: null },
+      },
+      schema: {
+        type: "struct",
+        name: "server.public.users.Envelope",
+        fields: [
+          {
+            field: "before",
+            name: "server.public.users.Value",
+            fields: [
+              { type: "int32", optional: false, field: "id" },
+              { type: "string", optional: true, field: "name" },
+              {
+                type: "string",
+                optional: true,
+                name: "io.debezium.time.ZonedTimestamp",
+                version: 1,
+                field: "created_at",
+              },
+              {
+                type: "string",
+                optional: true,
+                name: "io.debezium.data.Json",
+                version: 1,
+                field: "data",
+              },
+              { type: "bytes", optional: true, field: "avatar" },
+            ],
+          },
+          { field: "after" },
+          { field: "source" },
+          { field: "op" },
+          { field: "ts_ms" },
+        ],
+      },
+    },
+  });
+});
@@ -0,0 +1,417 @@
+import type { BackfillMessage } from "./BackfillStream.js";
+import { Lsn } from "./Lsn.js";
+import type { PgoutputRelation, RelationColumn } from "./messages.js";
+
+export interface DebeziumStreamInit {
+  /** Name of the database, reported in `source.db`. */
+  database: string;
+  /**
+   * Include the Debezium JSON schema of each event, as produced by the JSON
+   * converter with `schemas.enable=true`.
+   *
+   * @default false
+   */
+  includeSchema?: boolean;
+  /**
+   * Logical name of the server, reported in `source.name` and used as the
+   * prefix of schema names. Corresponds to Debezium's `topic.prefix`.
+   */
+  serverName: string;
+}
+
+export interface DebeziumSource {
+  version: string;
+  connector: "postgresql";
+  name: string;
+  ts_ms: number;
+  snapshot: "true" | "false";
+  db: string;
+  sequence: string | null;
+  schema: string;
+  table: string;
+  txId: number | null;
+  lsn: number | null;
+  xmin: number | null;
+}
+
+export interface DebeziumEnvelope {
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  source: DebeziumSource;
+  op: "c" | "u" | "d" | "t" | "r";
+  ts_ms: number;
+}
+
+export interface DebeziumSchema {
+  type: string;
+  optional: boolean;
+  name?: string;
+  version?: number;
+  field?: string;
+  fields?: DebeziumSchema[];
+  items?: DebeziumSchema;
+}
+
+export interface DebeziumEvent {
+  /** Replica identity key of the row, or `null` for truncate events. */
+  key: Record<string, unknown> | null;
+  /**
+   * The change event envelope, wrapped with its schema when `includeSchema`
+   * is enabled.
+   */
+  value:
+    | DebeziumEnvelope
+    | { schema: DebeziumSchema; payload: DebeziumEnvelope };
+}
+
+const VERSION = "pulse-cdc-pg";
+
+/** Debezium schemas of the default type parsers keyed on the type OID. */
+const SCHEMAS: Record<number, Omit<DebeziumSchema, "optional">> = {
+  16: { type: "boolean" }, // bool
+  17: { type: "bytes" }, // bytea
+  20: { type: "int64" }, // int8
+  21: { type: "int16" }, // int2
+  23: { type: "int32" }, // int4
+  26: { type: "int64" }, // oid
+  114: { type: "string", name: "io.debezium.data.Json", version: 1 }, // json
+  700: { type: "float" }, // float4
+  701: { type: "double" }, // float8
+  1082: {
+    type: "int32",
+    name: "org.apache.kafka.connect.data.Date",
+    version: 1,
+  }, // date
+  1114: {
+    type: "int64",
+    name: "org.apache.kafka.connect.data.Timestamp",
+    version: 1,
+  }, // timestamp
+  1184: {
+    type: "string",
+    name: "io.debezium.time.ZonedTimestamp",
+    version: 1,
+  }, // timestamptz
+  2950: { type: "string", name: "io.debezium.data.Uuid", version: 1 }, // uuid
+  3802: { type: "string", name: "io.debezium.data.Json", version: 1 }, // jsonb
+};
+
+/** Element type OIDs of the array types with default type parsers. */
+const ARRAY_ELEMENTS: Record<number, number> = {
+  199: 114,
+  1000: 16,
+  1001: 17,
+  1005: 21,
+  1007: 23,
+  1009: 25,
+  1015: 1043,
+  1016: 20,
+  1021: 700,
+  1022: 701,
+  1028: 26,
+  1115: 1114,
+  1182: 1082,
+  1185: 1184,
+  2951: 2950,
+  3807: 3802,
+};
+
+const MS_PER_DAY = 86400000;
+
+function columnSchema(
+  typeOid: number,
+): Omit<DebeziumSchema, "optional" | "field"> {
+  const element = ARRAY_ELEMENTS[typeOid];
+  if (element !== undefined) {
+    return {
+      type: "array",
+      items: { ...columnSchema(element), optional: true },
+    };
+  }
+  // numeric and other types are represented as strings
+  return SCHEMAS[typeOid] ?? { type: "string" };
+}
+
+/**
+ * Converts a parsed value into the representation used by Debezium with
+ * `decimal.handling.mode=string` and `time.precision.mode=connect`.
+ */
+function toDebeziumValue(typeOid: number, value: unknown): unknown {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  const element = ARRAY_ELEMENTS[typeOid];
+  if (element !== undefined && Array.isArray(value)) {
+    return value.map((x) => toDebeziumValue(element, x));
+  }
+  switch (typeOid) {
+    case 114: // json
+    case 3802: // jsonb
+      return JSON.stringify(value);
+    case 1700: // numeric
+      return String(value);
+    case 20: // int8
+      // values parsed as bigint keep their precision
+      return typeof value === "bigint" ? value : Number(value);
+    case 26: // oid
+      return Number(value);
+  }
+  if (value instanceof Date) {
+    if (typeOid === 1184 /* timestamptz */) {
+      return value.toISOString();
+    }
+    // dates and timestamps without a time zone are parsed as local time,
+    // Debezium represents them as the same wall clock time in UTC
+    const wallClock = Date.UTC(
+      value.getFullYear(),
+      value.getMonth(),
+      value.getDate(),
+      value.getHours(),
+      value.getMinutes(),
+      value.getSeconds(),
+      value.getMilliseconds(),
+    );
+    return typeOid === 1082 /* date */
+      ? Math.floor(wallClock / MS_PER_DAY)
+      : wallClock;
+  }
+  if (value instanceof Uint8Array) {
+    return Buffer.from(value).toString("base64");
+  }
+  return value;
+}
+
+function toDebeziumRow(
+  { columns }: PgoutputRelation,
+  row: Record<string, unknown> | null,
+) {
+  if (!row) {
+    return null;
+  }
+  const result: Record<string, unknown> = {};
+  for (const { name, typeOid } of columns) {
+    if (name in row) {
+      result[name] = toDebeziumValue(typeOid, row[name]);
+    }
+  }
+  return result;
+}
+
+function keyOf(
+  relation: PgoutputRelation,
+  row: Record<string, unknown> | null,
+) {
+  if (!row || relation.keyColumns.length === 0) {
+    return null;
+  }
+  return Object.fromEntries(relation.keyColumns.map((x) => [x, row[x]]));
+}
+
+function rowSchema(
+  name: string,
+  columns: RelationColumn[],
+  field: string,
+): DebeziumSchema {
+  return {
+    type: "struct",
+    fields: columns.map((column) => ({
+      ...columnSchema(column.typeOid),
+      // pgoutput does not report NOT NULL constraints
+      optional: !(column.flags & 0b1),
+      field: column.name,
+    })),
+    optional: true,
+    name,
+    field,
+  };
+}
+
+const SOURCE_SCHEMA: DebeziumSchema = {
+  type: "struct",
+  fields: [
+    { type: "string", optional: false, field: "version" },
+    { type: "string", optional: false, field: "connector" },
+    { type: "string", optional: false, field: "name" },
+    { type: "int64", optional: false, field: "ts_ms" },
+    {
+      type: "string",
+      optional: true,
+      name: "io.debezium.data.Enum",
+      version: 1,
+      field: "snapshot",
+    },
+    { type: "string", optional: false, field: "db" },
+    { type: "string", optional: true, field: "sequence" },
+    { type: "string", optional: false, field: "schema" },
+    { type: "string", optional: false, field: "table" },
+    { type: "int64", optional: true, field: "txId" },
+    { type: "int64", optional: true, field: "lsn" },
+    { type: "int64", optional: true, field: "xmin" },
+  ],
+  optional: false,
+  name: "io.debezium.connector.postgresql.Source",
+  field: "source",
+};
+
+function envelopeSchema(
+  serverName: string,
+  relation: PgoutputRelation,
+): DebeziumSchema {
+  const prefix = `${serverName}.${relation.schema}.${relation.name}`;
+  return {
+    type: "struct",
+    fields: [
+      rowSchema(`${prefix}.Value`, relation.columns, "before"),
+      rowSchema(`${prefix}.Value`, relation.columns, "after"),
+      SOURCE_SCHEMA,
+      { type: "string", optional: false, field: "op" },
+      { type: "int64", optional: true, field: "ts_ms" },
+    ],
+    optional: false,
+    name: `${prefix}.Envelope`,
+    version: 1,
+  };
+}
+
+/**
+ * Implementation of `TransformStream` that formats the messages emitted by
+ * `PgOutputDecoderStream` or `BackfillStream` as Debezium PostgreSQL connector
+ * change events, so that existing Debezium consumers can consume them.
+ *
+ * Inserts, updates, deletes, truncates and snapshot reads are emitted with
+ * the `c`, `u`, `d`, `t` and `r` operations, and the source includes the
+ * transaction ID and commit time from the enclosing transaction. A truncate of
+ * several tables emits an event per table. Other messages are not emitted.
+ *
+ * Values are formatted as with `decimal.handling.mode=string` and
+ * `time.precision.mode=connect`. `int8` values are formatted as numbers, which
+ * lose precision beyond `Number.MAX_SAFE_INTEGER` unless `int8` is parsed as
+ * `bigint` with the `types` option of `PgOutputDecoderStream`. Changes of
+ * streamed transactions are emitted as they are received, before the
+ * transaction commits or aborts.
+ *
+ * @see {@link https://debezium.io/documentation/reference/stable/connectors/postgresql.html#postgresql-events Debezium docs}
+ */
+export class DebeziumStream extends TransformStream<
+  BackfillMessage,
+  DebeziumEvent
+> {
+  constructor(init: DebeziumStreamInit) {
+    const { database, includeSchema = false, serverName } = init;
+
+    /** The enclosing transaction of non-streamed changes. */
+    let transaction: { xid: number; commitTime: Date } | null = null;
+
+    super({
+      transform(wal, controller) {
+        if (wal.type === "keepalive") {
+          return;
+        }
+
+        const now = Date.now();
+        const event = (
+          op: DebeziumEnvelope["op"],
+          relation: PgoutputRelation,
+          rows: {
+            key?: Record<string, unknown> | null;
+            before?: Record<string, unknown> | null;
+            after?: Record<string, unknown> | null;
+          },
+          xid?: number,
+        ) => {
+          const payload: DebeziumEnvelope = {
+            before: toDebeziumRow(relation, rows.before ?? null),
+            after: toDebeziumRow(relation, rows.after ?? null),
+            source: {
+              version: VERSION,
+              connector: "postgresql",
+              name: serverName,
+              ts_ms:
+                wal.type === "snapshot"
+                  ? now
+                  : (transaction?.commitTime ?? wal.systemTime).getTime(),
+              snapshot: wal.type === "snapshot" ? "true" : "false",
+              db: database,
+              sequence: null,
+              schema: relation.schema,
+              table: relation.name,
+              txId: xid ?? transaction?.xid ?? null,
+              lsn: Number(
+                Lsn.parse(wal.type === "snapshot" ? wal.lsn : wal.messageLsn)
+                  .value,
+              ),
+              xmin: null,
+            },
+            op,
+            ts_ms: now,
+          };
+          controller.enqueue({
+            key: toDebeziumRow(relation, rows.key ?? null),
+            value: includeSchema
+              ? { schema: envelopeSchema(serverName, relation), payload }
+              : payload,
+          });
+        };
+
+        const { message } = wal;
+        switch (message.tag) {
+          case "begin":
+            transaction = { xid: message.xid, commitTime: message.commitTime };
+            break;
+          case "begin_prepare":
+            transaction = { xid: message.xid, commitTime: message.prepareTime };
+            break;
+          case "commit":
+          case "prepare":
+            transaction = null;
+            break;
+          case "read":
+            event("r", message.relation, {
+              key: keyOf(message.relation, message.new),
+              after: message.new,
+            });
+            break;
+          case "insert":
+            event(
+              "c",
+              message.relation,
+              {
+                key: keyOf(message.relation, message.new),
+                after: message.new,
+              },
+              message.xid,
+            );
+            break;
+          case "update":
+            event(
+              "u",
+              message.relation,
+              {
+                key: keyOf(message.relation, message.new),
+                before: message.old,
+                after: message.new,
+              },
+              message.xid,
+            );
+            break;
+          case "delete":
+            event(
+              "d",
+              message.relation,
+              {
+                key: keyOf(message.relation, message.old ?? message.key),
+                before: message.old ?? message.key,
+              },
+              message.xid,
+            );
+            break;
+          case "truncate":
+            for (const relation of message.relations) {
+              event("t", relation, {}, message.xid);
+            }
+            break;
+        }
+      },
+    });
+  }
+}
@@ -0,0 +1,257 @@
+import { Socket } from "node:net";
+import pg from "pg";
+import { afterEach, beforeEach, expect, test, vi } from "vitest";
+import { FakeReplicationServer } from "./FakeReplicationServer.js";
+import { LogicalReplicationStream } from "./LogicalReplicationStream.js";
+import { Lsn } from "./Lsn.js";
+import type { PgoutputRelation } from "./messages.js";
+import { PgOutputDecoderStream } from "./PgoutputDecoderStream.js";
+
+const relation: PgoutputRelation = {
+  tag: "relation",
+  oid: 16384,
+  schema: "public",
+  name: "users",
+  replicaIdentity: "default",
+  columns: [
+    {
+      flags: 1,
+      name: "id",
+      typeOid: 23,
+      typeMod: -1,
+      typeSchema: null,
+      typeName: null,
+      parser: pg.types.getTypeParser(23),
+    },
+  ],
+  keyColumns: ["id"],
+  version: 1,
+};
+
+const commitTime = new Date("2024-01-01T00:00:00Z");
+
+let server: FakeReplicationServer;
+
+beforeEach(async () => {
+  server = await new FakeReplicationServer().listen();
+});
+
+afterEach(async () => {
+  await server.close();
+});
+
+function replicate() {
+  return new LogicalReplicationStream({
+    clientConfig: server.clientConfig,
+    lsn: "0/100",
+    protocolVersion: 1,
+    publicationName: "my_publication",
+    slotName: "my_slot",
+  });
+}
+
+test("streams scripted messages", async () => {
+  server.sendMessage({ tag: "begin", commitLsn: "0/20", commitTime, xid: 7 });
+  server.sendMessage(relation);
+  server.sendMessage({ tag: "insert", relation, new: { id: 1 } });
+  server.sendMessage(
+    {
+      tag: "commit",
+      flags: 0,
+      commitLsn: "0/20",
+      commitEndLsn: "0/30",
+      commitTime,
+    },
+    "1/0",
+  );
+
+  const replication = replicate();
+  const reader = replication
+    .pipeThrough(new PgOutputDecoderStream())
+    .getReader();
+  try {
+    const messages = [];
+    for (let i = 0; i < 4; i++) {
+      const { value } = await reader.read();
+      messages.push(value);
+    }
+
+    expect(await server.waitForReplication()).toEqual({
+      slotName: "my_slot",
+      lsn: "0/100",
+      options: {
+        proto_version: "1",
+        publication_names: "my_publication",
+        messages: "false",
+      },
+    });
+    expect(messages.map((x) => x?.type === "waldata" && x.message)).toEqual([
+      { tag: "begin", commitLsn: "0/20", commitTime, xid: 7 },
+      relation,
+      { tag: "insert", relation, new: { id: 1 } },
+      expect.objectContaining({ tag: "commit" }),
+    ]);
+    expect(messages.map((x) => x?.type === "waldata" && x.messageLsn)).toEqual([
+      "0/1000010",
+      "0/1000020",
+      "0/1000030",
+      "1/0",
+    ]);
+  } finally {
+    await replication.dispose();
+  }
+});
+
+test("records acknowledged LSNs", async () => {
+  const replication = replicate();
+  try {
+    await server.waitForReplication();
+    await replication.acknowledge("0/200");
+    await server.waitForAcknowledgement("0/200");
+
+    server.sendKeepalive({ shouldRespond: true });
+    await replication.getReader().read();
+    await vi.waitFor(() => expect(server.acknowledgements).toHaveLength(2));
+
+    expect(server.acknowledgements.map(String)).toEqual(["0/200", "0/200"]);
+  } finally {
+    await replication.dispose();
+  }
+});
+
+test("reports no position before the first acknowledgement", async () => {
+  const replication = new LogicalReplicationStream({
+    clientConfig: server.clientConfig,
+    protocolVersion: 1,
+    publicationName: "my_publication",
+    slotName: "my_slot",
+    statusInterval: 10,
+  });
+  try {
+    await server.waitForReplication();
+    // periodic status updates wait for an acknowledged LSN
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(server.statusUpdates).toEqual([]);
+
+    server.sendKeepalive({ shouldRespond: true });
+    await replication.getReader().read();
+    await vi.waitFor(() => expect(server.statusUpdates).toHaveLength(1));
+    expect(server.statusUpdates[0]!.equals(Lsn.ZERO)).toBe(true);
+  } finally {
+    await replication.dispose();
+  }
+});
+
+test("ends the stream when replication ends", async () => {
+  const replication = replicate();
+  const reader = replication.getReader();
+
+  await server.waitForReplication();
+  server.end();
+
+  expect(await reader.read()).toEqual({ done: true, value: undefined });
+  await replication.dispose();
+});
+
+test("resumes from the acknowledged LSN after disconnecting", async () => {
+  const replication = new LogicalReplicationStream({
+    clientConfig: server.clientConfig,
+    protocolVersion: 1,
+    publicationName: "my_publication",
+    reconnect: { initialDelay: 10 },
+    slotName: "my_slot",
+  });
+  try {
+    await server.waitForReplication();
+    await replication.acknowledge("0/200");
+    await server.waitForAcknowledgement("0/200");
+
+    server.disconnect();
+    server.sendKeepalive();
+    await replication.getReader().read();
+
+    expect(server.replications.map((x) => x.lsn)).toEqual(["0/0", "0/201"]);
+  } finally {
+    await replication.dispose();
+  }
+});
+
+test("does not reconnect after errors other than connection errors", async () => {
+  const error = new TypeError("not a connection error");
+  const replication = new LogicalReplicationStream({
+    clientConfig: {
+      ...server.clientConfig,
+      // a socket that fails to connect with the error
+      stream: () => {
+        const socket = new Socket();
+        socket.connect = () => {
+          process.nextTick(() => socket.emit("error", error));
+          return socket;
+        };
+        return socket;
+      },
+    },
+    protocolVersion: 1,
+    publicationName: "my_publication",
+    reconnect: { initialDelay: 10 },
+    slotName: "my_slot",
+  });
+  const onReconnecting = vi.fn();
+  replication.addEventListener("reconnecting", onReconnecting);
+  try {
+    await expect(replication.getReader().read()).rejects.toBe(error);
+    expect(onReconnecting).not.toHaveBeenCalled();
+  } finally {
+    await replication.dispose();
+  }
+});
+
+test("starts replication after the saved checkpoint", async () => {
+  const replication = new LogicalReplicationStream({
+    checkpointStore: {
+      load: async () => Lsn.parse("0/200"),
+      save: async () => {},
+    },
+    clientConfig: server.clientConfig,
+    protocolVersion: 1,
+    publicationName: "my_publication",
+    slotName: "my_slot",
+  });
+  try {
+    await server.waitForReplication();
+    // the same position as confirmed by acknowledging the checkpoint
+    expect(server.replications.map((x) => x.lsn)).toEqual(["0/201"]);
+
+    server.sendKeepalive({ shouldRespond: true });
+    await replication.getReader().read();
+    await server.waitForAcknowledgement("0/200");
+  } finally {
+    await replication.dispose();
+  }
+});
+
+test("identifies the system", async () => {
+  const client = new pg.Client({
+    ...server.clientConfig,
+    // @ts-expect-error this field is accepted but not in the types
+    replication: "database",
+  });
+  await client.connect();
+  try {
+    const { rows } = await client.query("IDENTIFY_SYSTEM");
+    expect(rows).toEqual([
+      {
+        systemid: "7000000000000000000",
+        timeline: 1,
+        xlogpos: "0/1000000",
+        dbname: "postgres",
+      },
+    ]);
+
+    await expect(client.query("SELECT 1")).rejects.toThrow(
+      /unsupported command: SELECT 1/,
+    );
+  } finally {
+    await client.end();
+  }
+});
@@ -0,0 +1,469 @@
+import { createServer, type Server, type Socket } from "node:net";
+import { BinaryWriter } from "./BinaryWriter.js";
+import { Lsn, type LsnLike } from "./Lsn.js";
+import type { PgoutputMessages } from "./messages.js";
+import { PgoutputEncoder } from "./PgoutputEncoder.js";
+import { WalMessageEncoder } from "./WalMessageEncoder.js";
+
+export interface FakeReplicationServerInit {
+  /**
+   * Port to listen on. By default a free port is chosen, available from
+   * `port` once listening.
+   *
+   * @default 0
+   */
+  port?: number;
+  /**
+   * Identifier of the system reported by `IDENTIFY_SYSTEM`.
+   *
+   * @default "7000000000000000000"
+   */
+  systemId?: string;
+}
+
+export interface ReplicationStart {
+  slotName: string;
+  /** The LSN requested by the client. */
+  lsn: string;
+  /** Options of the output plugin, such as `proto_version`. */
+  options: Record<string, string>;
+}
+
+/** Version of the frontend/backend protocol, 3.0. */
+const PROTOCOL_VERSION = 196608;
+const SSL_REQUEST_CODE = 80877103;
+const GSSENC_REQUEST_CODE = 80877104;
+
+const textEncoder = new TextEncoder();
+
+const START_REPLICATION =
+  /^START_REPLICATION\s+SLOT\s+("(?:[^"]|"")+"|\S+)\s+LOGICAL\s+([0-9A-F]+\/[0-9A-F]+)(?:\s+\((.*)\))?\s*;?$/is;
+
+function message(type: string, body: BinaryWriter = new BinaryWriter()) {
+  const bytes = body.toUint8Array();
+  return new BinaryWriter()
+    .writeUint8(type.charCodeAt(0))
+    .writeInt32(bytes.length + 4)
+    .write(bytes)
+    .toUint8Array();
+}
+
+function readyForQuery() {
+  return message("Z", new BinaryWriter().writeUint8(0x49 /*I*/));
+}
+
+function errorResponse(code: string, text: string) {
+  return message(
+    "E",
+    new BinaryWriter()
+      .writeUint8(0x53 /*S*/)
+      .writeString("ERROR")
+      .writeUint8(0x56 /*V*/)
+      .writeString("ERROR")
+      .writeUint8(0x43 /*C*/)
+      .writeString(code)
+      .writeUint8(0x4d /*M*/)
+      .writeString(text)
+      .writeUint8(0x00),
+  );
+}
+
+function parseOptions(options: string | undefined) {
+  const result: Record<string, string> = {};
+  for (const [, name, value] of (options ?? "").matchAll(
+    /"?(\w+)"?\s+'((?:[^']|'')*)'/g,
+  )) {
+    result[name!] = value!.replaceAll("''", "'");
+  }
+  return result;
+}
+
+/**
+ * State of a client connection, which parses the messages sent by the client.
+ */
+class Connection {
+  readonly socket: Socket;
+  /** Whether the server sent CopyDone and waits for the client's CopyDone. */
+  copyDone = false;
+  /** Whether the connection is streaming replication in CopyBoth mode. */
+  replicating = false;
+
+  #buffer = Buffer.alloc(0);
+  #started = false;
+
+  constructor(socket: Socket) {
+    this.socket = socket;
+  }
+
+  send(...messages: Uint8Array[]) {
+    for (const bytes of messages) {
+      this.socket.write(bytes);
+    }
+  }
+
+  /**
+   * Appends received bytes, yielding the complete messages received. The
+   * startup message has no type, which is reported as an empty string.
+   */
+  *receive(chunk: Buffer): Generator<{ type: string; body: Buffer }> {
+    this.#buffer = Buffer.concat([this.#buffer, chunk]);
+    while (true) {
+      const offset = this.#started ? 1 : 0;
+      if (this.#buffer.length < offset + 4) {
+        return;
+      }
+      const length = this.#buffer.readUInt32BE(offset);
+      if (this.#buffer.length < offset + length) {
+        return;
+      }
+      const type = this.#started ? String.fromCharCode(this.#buffer[0]!) : "";
+      const body = this.#buffer.subarray(offset + 4, offset + length);
+      this.#buffer = this.#buffer.subarray(offset + length);
+
+      // SSL and GSSAPI encryption requests precede the startup message
+      const code = type === "" ? body.readUInt32BE(0) : 0;
+      if (code !== SSL_REQUEST_CODE && code !== GSSENC_REQUEST_CODE) {
+        this.#started = true;
+      }
+      yield { type, body };
+    }
+  }
+}
+
+/**
+ * Server speaking enough of the PostgreSQL protocol to test logical
+ * replication consumers without a database. `LogicalReplicationStream`
+ * connects to it with `clientConfig`.
+ *
+ * The server accepts any user without authentication, and supports the
+ * `IDENTIFY_SYSTEM` and `START_REPLICATION` commands of replication
+ * connections. Messages are scripted with `sendMessage()` and are delivered
+ * once to the client that is replicating, or queued until a client starts
+ * replication. The standby status updates sent by the client are recorded in
+ * `acknowledgements`.
+ *
+ * @see {@link https://www.postgresql.org/docs/current/protocol-replication.html PostgreSQL docs}
+ */
+export class FakeReplicationServer {
+  /**
+   * LSNs acknowledged by standby status updates, in the order received. Like
+   * `LogicalReplicationStream.acknowledge()`, the flush position reported in
+   * each update minus one.
+   */
+  readonly acknowledgements: Lsn[] = [];
+  /** Every `START_REPLICATION` command received, in order. */
+  readonly replications: ReplicationStart[] = [];
+  /**
+   * Flush positions reported by standby status updates as received, which
+   * are `0/0` for updates that report no position.
+   */
+  readonly statusUpdates: Lsn[] = [];
+
+  readonly #connections = new Set<Connection>();
+  readonly #encoder = new WalMessageEncoder(new PgoutputEncoder());
+  readonly #port: number;
+  /** Packets waiting for a client to start replication. */
+  readonly #queue: Uint8Array[] = [];
+  readonly #server: Server;
+  readonly #systemId: string;
+  /** Callbacks waiting for a status update or for replication to start. */
+  #waiters: (() => void)[] = [];
+  #walEnd = Lsn.fromParts(0, 0x1000000);
+
+  constructor(init: FakeReplicationServerInit = {}) {
+    this.#port = init.port ?? 0;
+    this.#systemId = init.systemId ?? "7000000000000000000";
+    this.#server = createServer((socket) => this.#accept(socket));
+  }
+
+  /** Connection options for `pg.Client` and `LogicalReplicationStream`. */
+  get clientConfig() {
+    return {
+      host: "127.0.0.1",
+      port: this.port,
+      user: "postgres",
+      database: "postgres",
+    };
+  }
+
+  /** The LSN of the last message sent. */
+  get walEnd() {
+    return this.#walEnd;
+  }
+
+  get port() {
+    const address = this.#server.address();
+    if (!address || typeof address === "string") {
+      throw new TypeError("server is not listening");
+    }
+    return address.port;
+  }
+
+  async [Symbol.asyncDispose]() {
+    await this.close();
+  }
+
+  async listen() {
+    await new Promise<void>((resolve, reject) => {
+      this.#server.once("error", reject);
+      this.#server.listen(this.#port, "127.0.0.1", () => {
+        this.#server.off("error", reject);
+        resolve();
+      });
+    });
+    return this;
+  }
+
+  async close() {
+    this.disconnect();
+    await new Promise<void>((resolve, reject) =>
+      this.#server.close((error) => (error ? reject(error) : resolve())),
+    );
+  }
+
+  /** Closes all client connections without ending replication cleanly. */
+  disconnect() {
+    for (const connection of this.#connections) {
+      connection.socket.destroy();
+    }
+    this.#connections.clear();
+  }
+
+  /**
+   * Ends replication cleanly, as when the server shuts down, which ends the
+   * stream of the client.
+   */
+  end() {
+    for (const connection of this.#connections) {
+      if (connection.replicating) {
+        // replication completes once the client also sends CopyDone
+        connection.replicating = false;
+        connection.copyDone = true;
+        connection.send(message("c"));
+      }
+    }
+  }
+
+  /** Sends a raw packet, such as one encoded by `WalMessageEncoder`. */
+  send(packet: Uint8Array) {
+    const connection = this.#replicatingConnection();
+    if (connection) {
+      connection.send(message("d", new BinaryWriter().write(packet)));
+    } else {
+      this.#queue.push(packet);
+    }
+  }
+
+  sendKeepalive({ shouldRespond = false } = {}) {
+    this.send(
+      this.#encoder.encode({
+        type: "keepalive",
+        currentLsn: this.#walEnd.toString(),
+        systemTime: new Date(),
+        shouldRespond,
+      }),
+    );
+  }
+
+  /**
+   * Sends a pgoutput message. By default, the message is sent at an LSN after
+   * the last message.
+   */
+  sendMessage(message: PgoutputMessages, lsn?: LsnLike) {
+    const messageLsn =
+      lsn === undefined ? this.#walEnd.add(0x10) : Lsn.from(lsn);
+    this.#walEnd = Lsn.max(this.#walEnd, messageLsn);
+    this.send(
+      this.#encoder.encode({
+        type: "waldata",
+        currentLsn: this.#walEnd.toString(),
+        messageLsn: messageLsn.toString(),
+        systemTime: new Date(),
+        message,
+      }),
+    );
+  }
+
+  /** Resolves once a status update acknowledged the LSN or a later LSN. */
+  async waitForAcknowledgement(lsn: LsnLike) {
+    await this.#waitFor(() =>
+      this.acknowledgements.some((x) => !x.isBefore(lsn)),
+    );
+  }
+
+  /** Resolves once a client is replicating. */
+  async waitForReplication() {
+    await this.#waitFor(() => this.#replicatingConnection() !== undefined);
+    return this.replications.at(-1)!;
+  }
+
+  #accept(socket: Socket) {
+    const connection = new Connection(socket);
+    this.#connections.add(connection);
+    socket.on("close", () => this.#connections.delete(connection));
+    socket.on("error", () => socket.destroy());
+    socket.on("data", (chunk) => {
+      for (const { type, body } of connection.receive(chunk)) {
+        this.#handle(connection, type, body);
+      }
+    });
+  }
+
+  #handle(connection: Connection, type: string, body: Buffer) {
+    switch (type) {
+      case "": {
+        const code = body.readUInt32BE(0);
+        if (code === SSL_REQUEST_CODE || code === GSSENC_REQUEST_CODE) {
+          // encryption is not supported
+          connection.socket.write("N");
+        } else if (code !== PROTOCOL_VERSION) {
+          connection.send(
+            errorResponse("0A000", `unsupported protocol version ${code}`),
+          );
+          connection.socket.end();
+        } else {
+          connection.send(
+            message("R", new BinaryWriter().writeInt32(0)),
+            message(
+              "S",
+              new BinaryWriter()
+                .writeString("server_version")
+                .writeString("16.0"),
+            ),
+            message(
+              "K",
+              new BinaryWriter().writeInt32(process.pid).writeInt32(0),
+            ),
+            readyForQuery(),
+          );
+        }
+        break;
+      }
+      case "Q":
+        this.#query(connection, body.toString("utf8", 0, body.length - 1));
+        break;
+      case "d":
+        // standby status update
+        if (body[0] === 0x72 /*r*/) {
+          const flushed = Lsn.from(body.readBigUInt64BE(9));
+          this.statusUpdates.push(flushed);
+          this.acknowledgements.push(
+            flushed.equals(Lsn.ZERO) ? flushed : flushed.subtract(1),
+          );
+          this.#notify();
+        }
+        break;
+      case "c":
+        // the client ended replication or replied to the server ending it
+        if (!connection.copyDone) {
+          connection.send(message("c"));
+        }
+        connection.replicating = false;
+        connection.copyDone = false;
+        connection.send(
+          message("C", new BinaryWriter().writeString("START_REPLICATION")),
+          readyForQuery(),
+        );
+        break;
+      case "X":
+        connection.socket.end();
+        break;
+    }
+  }
+
+  #query(connection: Connection, sql: string) {
+    const command = sql.trim();
+    if (/^IDENTIFY_SYSTEM\s*;?$/i.test(command)) {
+      const columns: [string, number][] = [
+        ["systemid", 25],
+        ["timeline", 23],
+        ["xlogpos", 25],
+        ["dbname", 25],
+      ];
+      const values = [this.#systemId, "1", this.#walEnd.toString(), "postgres"];
+
+      const description = new BinaryWriter().writeInt16(columns.length);
+      for (const [name, typeOid] of columns) {
+        description
+          .writeString(name)
+          .writeInt32(0)
+          .writeInt16(0)
+          .writeInt32(typeOid)
+          .writeInt16(-1)
+          .writeInt32(-1)
+          .writeInt16(0);
+      }
+      const row = new BinaryWriter().writeInt16(values.length);
+      for (const value of values) {
+        const bytes = textEncoder.encode(value);
+        row.writeInt32(bytes.length).write(bytes);
+      }
+      connection.send(
+        message("T", description),
+        message("D", row),
+        message("C", new BinaryWriter().writeString("IDENTIFY_SYSTEM")),
+        readyForQuery(),
+      );
+      return;
+    }
+
+    const match = START_REPLICATION.exec(command);
+    if (match) {
+      const [, slot, lsn, options] = match;
+      const slotName = slot!.startsWith('"')
+        ? slot!.slice(1, -1).replaceAll('""', '"')
+        : slot!;
+      if (this.#replicatingConnection()) {
+        connection.send(
+          errorResponse(
+            "55006",
+            `replication slot "${slotName}" is active for PID ${process.pid}`,
+          ),
+          readyForQuery(),
+        );
+        return;
+      }
+
+      this.replications.push({
+        slotName,
+        lsn: Lsn.parse(lsn!).toString(),
+        options: parseOptions(options),
+      });
+      connection.replicating = true;
+      connection.send(
+        message("W", new BinaryWriter().writeUint8(0).writeInt16(0)),
+      );
+      for (const packet of this.#queue.splice(0)) {
+        this.send(packet);
+      }
+      this.#notify();
+      return;
+    }
+
+    connection.send(
+      errorResponse("0A000", `unsupported command: ${command}`),
+      readyForQuery(),
+    );
+  }
+
+  #notify() {
+    const waiters = this.#waiters;
+    this.#waiters = [];
+    waiters.forEach((x) => x());
+  }
+
+  #replicatingConnection() {
+    for (const connection of this.#connections) {
+      if (connection.replicating) {
+        return connection;
+      }
+    }
+    return undefined;
+  }
+
+  async #waitFor(condition: () => boolean) {
+    while (!condition()) {
+      await new Promise<void>((resolve) => this.#waiters.push(resolve));
+    }
+  }
+}
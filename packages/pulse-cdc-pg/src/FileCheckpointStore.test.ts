@@ -0,0 +1,37 @@
+import { mkdtemp, readdir, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, expect, test } from "vitest";
+import { FileCheckpointStore } from "./FileCheckpointStore.js";
+import { Lsn } from "./Lsn.js";
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(join(tmpdir(), "pulse-checkpoint-"));
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+test("loads null without a checkpoint", async () => {
+  const store = new FileCheckpointStore(join(directory, "checkpoint.json"));
+  await expect(store.load()).resolves.toBeNull();
+});
+
+test("saves and loads checkpoints", async () => {
+  const path = join(directory, "checkpoint.json");
+  const store = new FileCheckpointStore(path);
+
+  await store.save(Lsn.parse("0/1A"));
+  await store.save("16/B374D848");
+
+  await expect(store.load()).resolves.toEqual(Lsn.parse("16/B374D848"));
+  await expect(new FileCheckpointStore(path).load()).resolves.toEqual(
+    Lsn.parse("16/B374D848"),
+  );
+  await expect(readFile(path, "utf8")).resolves.toBe('{"lsn":"16/B374D848"}');
+  // the temporary file is renamed over the checkpoint
+  await expect(readdir(directory)).resolves.toEqual(["checkpoint.json"]);
+});
@@ -0,0 +1,38 @@
+import { readFile, rename, writeFile } from "node:fs/promises";
+import type { CheckpointStore } from "./CheckpointStore.js";
+import { Lsn, type LsnLike } from "./Lsn.js";
+
+/**
+ * Implementation of `CheckpointStore` that saves the checkpoint to a JSON
+ * file. The file is replaced atomically, so a crash while saving leaves the
+ * previous checkpoint intact.
+ */
+export class FileCheckpointStore implements CheckpointStore {
+  readonly path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async load() {
+    let json: string;
+    try {
+      json = await readFile(this.path, "utf8");
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw e;
+    }
+    const { lsn } = JSON.parse(json) as { lsn: string };
+    return Lsn.parse(lsn);
+  }
+
+  async save(lsn: LsnLike) {
+    const temp = `${this.path}.tmp`;
+    await writeFile(temp, JSON.stringify({ lsn: Lsn.from(lsn) }), {
+      flush: true,
+    });
+    await rename(temp, this.path);
+  }
+}
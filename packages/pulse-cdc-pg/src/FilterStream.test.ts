@@ -0,0 +1,270 @@
+import { expect, test } from "vitest";
+import type { BackfillMessage } from "./BackfillStream.js";
+import { FilterStream, type FilterStreamInit } from "./FilterStream.js";
+import type {
+  PgoutputBegin,
+  PgoutputCommit,
+  PgoutputMessages,
+  PgoutputRead,
+} from "./messages.js";
+import { column, relation, systemTime, wal } from "../test/test-utils.js";
+
+const columns = ["id", "email", "status"].map((x) => column(x));
+const users = relation("users", { oid: 1, columns });
+const orders = relation("orders", { oid: 2, columns });
+const audit = relation("audit_log", { oid: 3, columns });
+const jobs = relation("jobs", { oid: 4, schema: "private", columns });
+
+const beginMessage: PgoutputBegin = {
+  tag: "begin",
+  commitLsn: "0/20",
+  commitTime: systemTime,
+  xid: 7,
+};
+const commitMessage: PgoutputCommit = {
+  tag: "commit",
+  flags: 0,
+  commitLsn: "0/20",
+  commitEndLsn: "0/30",
+  commitTime: systemTime,
+};
+const begin = wal(beginMessage);
+const commit = wal(commitMessage);
+
+async function filter(init: FilterStreamInit, messages: BackfillMessage[]) {
+  const stream = new FilterStream(init);
+  const writer = stream.writable.getWriter();
+  const output: (PgoutputMessages | PgoutputRead)[] = [];
+  const reading = (async () => {
+    for await (const x of stream.readable) {
+      if (x.type !== "keepalive") {
+        output.push(x.message);
+      }
+    }
+  })();
+  for (const message of messages) {
+    await writer.write(message);
+  }
+  await writer.close();
+  await reading;
+  return output;
+}
+
+test("filters tables by pattern", async () => {
+  const output = await filter(
+    { include: ["public.*"], exclude: ["*.audit_*"] },
+    [
+      begin,
+      wal(users),
+      wal(jobs),
+      wal({ tag: "insert", relation: users, new: { id: "1" } }),
+      wal({ tag: "insert", relation: audit, new: { id: "2" } }),
+      wal({ tag: "delete", relation: jobs, key: { id: "3" }, old: null }),
+      wal({
+        tag: "truncate",
+        cascade: false,
+        restartIdentity: false,
+        relations: [users, jobs],
+      }),
+      commit,
+    ],
+  );
+
+  expect(output).toEqual([
+    beginMessage,
+    users,
+    { tag: "insert", relation: users, new: { id: "1" } },
+    {
+      tag: "truncate",
+      cascade: false,
+      restartIdentity: false,
+      relations: [users],
+    },
+    commitMessage,
+  ]);
+});
+
+test("projects columns", async () => {
+  const output = await filter(
+    { columns: { "public.users": ["id", "email"] } },
+    [
+      wal(users),
+      wal({
+        tag: "update",
+        relation: users,
+        key: null,
+        old: { id: "1", email: "a@example.com", status: "new" },
+        new: { id: "1", email: "b@example.com", status: "new" },
+      }),
+      wal({
+        tag: "insert",
+        relation: orders,
+        new: { id: "1", email: "a@example.com", status: "paid" },
+      }),
+    ],
+  );
+
+  const [projected, update, insert] = output;
+  expect(projected).toEqual({
+    ...users,
+    columns: [column("id"), column("email")],
+  });
+  expect(update).toEqual({
+    tag: "update",
+    relation: projected,
+    key: null,
+    old: { id: "1", email: "a@example.com" },
+    new: { id: "1", email: "b@example.com" },
+  });
+  // changes share the projected relation
+  expect(update).toHaveProperty("relation", projected);
+  expect(insert).toHaveProperty("relation", orders);
+});
+
+test("projects unchanged columns", async () => {
+  const [update, projected] = await filter(
+    { columns: { "public.users": ["id", "email"] } },
+    [
+      wal({
+        tag: "update",
+        relation: users,
+        key: null,
+        old: null,
+        new: { id: "1", email: undefined, status: undefined },
+        unchangedColumns: ["email", "status"],
+      }),
+      wal({
+        tag: "update",
+        relation: users,
+        key: null,
+        old: null,
+        new: { id: "1", email: "a@example.com", status: undefined },
+        unchangedColumns: ["status"],
+      }),
+    ],
+  );
+
+  expect(update).toHaveProperty("unchangedColumns", ["email"]);
+  expect(projected).not.toHaveProperty("unchangedColumns");
+});
+
+test("filters rows with predicates", async () => {
+  const output = await filter(
+    { where: { "public.orders": (row) => row["status"] === "paid" } },
+    [
+      wal({ tag: "insert", relation: orders, new: { id: "1", status: "new" } }),
+      wal({
+        tag: "insert",
+        relation: orders,
+        new: { id: "2", status: "paid" },
+      }),
+      wal({
+        tag: "delete",
+        relation: orders,
+        key: null,
+        old: { id: "2", status: "paid" },
+      }),
+      wal({ tag: "insert", relation: users, new: { id: "3", status: "new" } }),
+    ],
+  );
+
+  expect(output.map((x) => "relation" in x && x.relation.name)).toEqual([
+    "orders",
+    "orders",
+    "users",
+  ]);
+  expect(output.map((x) => x.tag)).toEqual(["insert", "delete", "insert"]);
+});
+
+test("drops transactions emptied by filtering", async () => {
+  const origin = wal({ tag: "origin", originLsn: "0/5", originName: "other" });
+  const messages = [
+    begin,
+    origin,
+    wal({ tag: "insert", relation: jobs, new: { id: "1" } }),
+    commit,
+    begin,
+    origin,
+    wal({ tag: "insert", relation: users, new: { id: "2" } }),
+    commit,
+  ];
+
+  const output = await filter({ exclude: ["private.*"] }, messages);
+  expect(output.map((x) => x.tag)).toEqual([
+    "begin",
+    "origin",
+    "insert",
+    "commit",
+  ]);
+
+  const all = await filter(
+    { exclude: ["private.*"], dropEmptyTransactions: false },
+    messages,
+  );
+  expect(all.map((x) => x.tag)).toEqual([
+    "begin",
+    "origin",
+    "commit",
+    "begin",
+    "origin",
+    "insert",
+    "commit",
+  ]);
+});
+
+test("keeps relations of transactions emptied by predicates", async () => {
+  const altered = { ...orders, version: 2 };
+  const output = await filter(
+    { where: { "public.orders": (row) => row["status"] === "paid" } },
+    [
+      begin,
+      wal(altered),
+      wal({
+        tag: "insert",
+        relation: altered,
+        new: { id: "1", status: "new" },
+      }),
+      commit,
+      begin,
+      wal({
+        tag: "insert",
+        relation: altered,
+        new: { id: "2", status: "paid" },
+      }),
+      commit,
+    ],
+  );
+
+  // the relation change is emitted without its transaction
+  expect(output.map((x) => x.tag)).toEqual([
+    "relation",
+    "begin",
+    "insert",
+    "commit",
+  ]);
+  expect(output[0]).toEqual(altered);
+  expect(output[2]).toHaveProperty(["new", "id"], "2");
+});
+
+test("filters snapshot rows", async () => {
+  const stream = new FilterStream({ include: ["public.users"] });
+  const writer = stream.writable.getWriter();
+  const reader = stream.readable.getReader();
+
+  void writer.write({
+    type: "snapshot",
+    lsn: "0/10",
+    message: { tag: "read", relation: jobs, new: { id: "1" } },
+  });
+  void writer.write({
+    type: "snapshot",
+    lsn: "0/10",
+    message: { tag: "read", relation: users, new: { id: "2" } },
+  });
+
+  expect((await reader.read()).value).toEqual({
+    type: "snapshot",
+    lsn: "0/10",
+    message: { tag: "read", relation: users, new: { id: "2" } },
+  });
+});
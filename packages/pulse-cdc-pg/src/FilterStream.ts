@@ -0,0 +1,291 @@
+import type { BackfillMessage } from "./BackfillStream.js";
+import type {
+  PgoutputDelete,
+  PgoutputInsert,
+  PgoutputRead,
+  PgoutputRelation,
+  PgoutputUpdate,
+} from "./messages.js";
+
+type Row = Record<string, unknown>;
+
+export type FilterChange =
+  | PgoutputDelete
+  | PgoutputInsert
+  | PgoutputRead
+  | PgoutputUpdate;
+
+/**
+ * Determines whether a change is kept. Receives the new row of inserts,
+ * updates and snapshot reads, and the old row or key of deletes, before
+ * columns are projected.
+ */
+export type RowPredicate = (row: Row, change: FilterChange) => boolean;
+
+export interface FilterStreamInit {
+  /**
+   * Patterns of the tables to keep, such as `public.*` or `*.users`, matched
+   * against the qualified name of each table. `*` matches any characters and
+   * `?` matches a single character. Defaults to all tables.
+   */
+  include?: string[];
+  /** Patterns of the tables to drop, which take precedence over `include`. */
+  exclude?: string[];
+  /**
+   * Columns to keep by table pattern. Other columns are removed from the rows
+   * and relations of the matching tables. The first matching pattern applies.
+   */
+  columns?: Record<string, string[]>;
+  /**
+   * Predicates of the rows to keep by table pattern. The first matching
+   * pattern applies.
+   */
+  where?: Record<string, RowPredicate>;
+  /**
+   * Whether transactions are dropped when all of their changes were filtered
+   * out.
+   *
+   * @default true
+   */
+  dropEmptyTransactions?: boolean;
+}
+
+type WalData = Extract<BackfillMessage, { type: "waldata" }>;
+
+/** Converts a glob pattern to a regular expression. */
+function globToRegExp(pattern: string) {
+  const source = pattern
+    .split("")
+    .map((char) =>
+      char === "*"
+        ? ".*"
+        : char === "?"
+          ? "."
+          : char.replace(/[.+^${}()|[\]\\]/g, "\\$&"),
+    )
+    .join("");
+  return new RegExp(`^${source}$`);
+}
+
+function compile<T>(entries: Record<string, T>) {
+  return Object.entries(entries).map(
+    ([pattern, value]) => [globToRegExp(pattern), value] as const,
+  );
+}
+
+function project(row: Row, columns: ReadonlySet<string>) {
+  return Object.fromEntries(
+    Object.entries(row).filter(([column]) => columns.has(column)),
+  );
+}
+
+/**
+ * Implementation of `TransformStream` that filters the messages emitted by
+ * `PgOutputDecoderStream` or `BackfillStream` by table, column and row.
+ *
+ * Changes and relation messages of tables that are not included are dropped,
+ * and truncate messages are dropped when none of their relations are
+ * included. Projected relations only describe the kept columns, and each
+ * projected relation is shared by the changes referencing it, the same as
+ * decoded relations.
+ *
+ * The begin message of a transaction is held back along with the origin,
+ * relation and type messages after it until a change of the transaction is
+ * kept, so that transactions without kept changes are dropped along with
+ * their commit. The relation and type messages of dropped transactions are
+ * still emitted, since they describe the changes of later transactions.
+ * Prepared and streamed transactions are always passed through.
+ *
+ * @example
+ * ```ts
+ * const filtered = messages.pipeThrough(
+ *   new FilterStream({
+ *     include: ["public.*"],
+ *     exclude: ["public.audit_*"],
+ *     columns: { "public.users": ["id", "email"] },
+ *     where: { "public.orders": (row) => row["status"] === "paid" },
+ *   }),
+ * );
+ * ```
+ */
+export class FilterStream extends TransformStream<
+  BackfillMessage,
+  BackfillMessage
+> {
+  constructor(init: FilterStreamInit = {}) {
+    const { dropEmptyTransactions = true } = init;
+    const include = init.include?.map(globToRegExp) ?? null;
+    const exclude = (init.exclude ?? []).map(globToRegExp);
+    const columns = compile(init.columns ?? {}).map(
+      ([pattern, names]) => [pattern, new Set(names)] as const,
+    );
+    const where = compile(init.where ?? {});
+
+    /** Projected relations keyed on the decoded relation. */
+    const projected = new WeakMap<PgoutputRelation, PgoutputRelation>();
+    /** Messages held back until a change of the transaction is kept. */
+    let pending: WalData[] | null = null;
+
+    const name = (relation: PgoutputRelation) =>
+      `${relation.schema}.${relation.name}`;
+    const isIncluded = (relation: PgoutputRelation) => {
+      const table = name(relation);
+      return (
+        (!include || include.some((x) => x.test(table))) &&
+        !exclude.some((x) => x.test(table))
+      );
+    };
+    const columnsOf = (relation: PgoutputRelation) =>
+      columns.find(([pattern]) => pattern.test(name(relation)))?.[1] ?? null;
+
+    const projectRelation = (relation: PgoutputRelation) => {
+      const kept = columnsOf(relation);
+      if (!kept) {
+        return relation;
+      }
+      let result = projected.get(relation);
+      if (!result) {
+        result = {
+          ...relation,
+          columns: relation.columns.filter((x) => kept.has(x.name)),
+          keyColumns: relation.keyColumns.filter((x) => kept.has(x)),
+        };
+        projected.set(relation, result);
+      }
+      return result;
+    };
+    const projectRow = <T extends Row | null>(
+      relation: PgoutputRelation,
+      row: T,
+    ): T => {
+      const kept = columnsOf(relation);
+      return (kept && row ? project(row, kept) : row) as T;
+    };
+
+    /** Returns the filtered change, or `null` if the change is dropped. */
+    const filterChange = <T extends FilterChange>(change: T): T | null => {
+      const { relation } = change;
+      if (!isIncluded(relation)) {
+        return null;
+      }
+      const predicate = where.find(([pattern]) =>
+        pattern.test(name(relation)),
+      )?.[1];
+      const row =
+        change.tag === "delete" ? (change.old ?? change.key) : change.new;
+      if (predicate && !predicate(row ?? {}, change)) {
+        return null;
+      }
+
+      const result = { ...change, relation: projectRelation(relation) };
+      if ("new" in result) {
+        result.new = projectRow(relation, result.new);
+      }
+      if ("old" in result) {
+        result.old = projectRow(relation, result.old);
+        result.key = projectRow(relation, result.key);
+      }
+      const kept = columnsOf(relation);
+      if (kept && result.tag === "update" && result.unchangedColumns) {
+        const unchangedColumns = result.unchangedColumns.filter((x) =>
+          kept.has(x),
+        );
+        delete result.unchangedColumns;
+        if (unchangedColumns.length > 0) {
+          result.unchangedColumns = unchangedColumns;
+        }
+      }
+      return result;
+    };
+
+    super({
+      transform(wal, controller) {
+        const enqueue = (wal: BackfillMessage) => {
+          if (pending) {
+            pending.forEach((x) => controller.enqueue(x));
+            pending = null;
+          }
+          controller.enqueue(wal);
+        };
+        /** Holds back messages that only describe the messages after them. */
+        const hold = (wal: WalData) => {
+          if (pending) {
+            pending.push(wal);
+          } else {
+            controller.enqueue(wal);
+          }
+        };
+
+        if (wal.type === "keepalive") {
+          controller.enqueue(wal);
+          return;
+        }
+        if (wal.type === "snapshot") {
+          const message = filterChange(wal.message);
+          if (message) {
+            controller.enqueue({ ...wal, message });
+          }
+          return;
+        }
+
+        const { message } = wal;
+        switch (message.tag) {
+          case "begin":
+            if (dropEmptyTransactions) {
+              pending = [wal];
+            } else {
+              controller.enqueue(wal);
+            }
+            break;
+          case "commit":
+            if (pending) {
+              // no change of the transaction was kept, while relations and
+              // types are only sent again after they change
+              for (const x of pending) {
+                if (x.message.tag === "relation" || x.message.tag === "type") {
+                  controller.enqueue(x);
+                }
+              }
+              pending = null;
+            } else {
+              controller.enqueue(wal);
+            }
+            break;
+          case "origin":
+          case "type":
+            hold(wal);
+            break;
+          case "relation":
+            if (isIncluded(message)) {
+              hold({ ...wal, message: projectRelation(message) });
+            }
+            break;
+          case "delete":
+          case "insert":
+          case "update": {
+            const change = filterChange(message);
+            if (change) {
+              enqueue({ ...wal, message: change });
+            }
+            break;
+          }
+          case "truncate": {
+            const relations = message.relations.filter(isIncluded);
+            if (relations.length > 0) {
+              enqueue({
+                ...wal,
+                message: {
+                  ...message,
+                  relations: relations.map(projectRelation),
+                },
+              });
+            }
+            break;
+          }
+          default:
+            enqueue(wal);
+        }
+      },
+    });
+  }
+}
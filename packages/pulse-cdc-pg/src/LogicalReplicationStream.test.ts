@@ -1,7 +1,9 @@
 import { Client } from "pg";
-import { beforeAll, expect, test } from "vitest";
-import { PgReplicationUtils } from "../test/test-utils";
-import { LogicalReplicationStream } from "./LogicalReplicationStream";
+import { beforeAll, expect, test, vi } from "vitest";
+import { PgReplicationUtils } from "../test/test-utils.js";
+import type { CheckpointStore } from "./CheckpointStore.js";
+import { LogicalReplicationStream } from "./LogicalReplicationStream.js";
+import { Lsn } from "./Lsn.js";
 
 const CONNECTION_STRING =
   process.env["DATABASE_URL"]! ??
@@ -95,3 +97,103 @@ test("acknowledges", async () => {
     await stream.dispose();
   }
 });
+
+test("saves checkpoints before acknowledging", async () => {
+  const store = {
+    load: vi.fn<CheckpointStore["load"]>().mockResolvedValue(Lsn.ZERO),
+    save: vi.fn<CheckpointStore["save"]>().mockResolvedValue(undefined),
+  };
+  const stream = new LogicalReplicationStream({
+    checkpointStore: store,
+    clientConfig: { connectionString: CONNECTION_STRING },
+    protocolVersion: 1,
+    publicationName: PUBLICATION,
+    slotName: SLOT,
+  });
+
+  const reader = stream.getReader();
+  try {
+    await reader.read();
+    expect(store.load).toHaveBeenCalledOnce();
+
+    await stream.checkpoint("0/0");
+    expect(store.save).toHaveBeenCalledWith(Lsn.ZERO);
+  } finally {
+    await reader.cancel();
+  }
+});
+
+test("sends periodic status updates", async () => {
+  const applicationName = `test_${crypto.randomUUID().replace(/-/g, "")}`;
+  const stream = new LogicalReplicationStream({
+    clientConfig: {
+      connectionString: CONNECTION_STRING,
+      application_name: applicationName,
+    },
+    protocolVersion: 1,
+    publicationName: PUBLICATION,
+    slotName: SLOT,
+    statusInterval: 100,
+  });
+
+  const client = new Client({ connectionString: CONNECTION_STRING });
+  const reader = stream.getReader();
+  try {
+    await client.connect();
+    await reader.read();
+
+    await vi.waitUntil(async () => {
+      const result = await client.query<{ reply_time: Date | null }>(
+        `SELECT reply_time FROM pg_stat_replication WHERE application_name = $1`,
+        [applicationName],
+      );
+      return result.rows.at(0)?.reply_time;
+    });
+  } finally {
+    await reader.cancel();
+    await client.end();
+  }
+});
+
+test("reconnects after the connection is terminated", async () => {
+  const applicationName = `test_${crypto.randomUUID().replace(/-/g, "")}`;
+  const stream = new LogicalReplicationStream({
+    clientConfig: {
+      connectionString: CONNECTION_STRING,
+      application_name: applicationName,
+    },
+    protocolVersion: 1,
+    publicationName: PUBLICATION,
+    reconnect: { initialDelay: 100 },
+    slotName: SLOT,
+  });
+
+  const events: string[] = [];
+  stream.addEventListener("disconnected", (e) => events.push(e.type));
+  stream.addEventListener("reconnecting", (e) => events.push(e.type));
+  stream.addEventListener("resumed", (e) => events.push(e.type));
+
+  const client = new Client({ connectionString: CONNECTION_STRING });
+  const reader = stream.getReader();
+  try {
+    await client.connect();
+    await reader.read();
+
+    await client.query(
+      `SELECT pg_terminate_backend(pid) FROM pg_stat_replication WHERE application_name = $1`,
+      [applicationName],
+    );
+
+    // reading continues on the new connection
+    await vi.waitUntil(async () => {
+      const next = await reader.read();
+      return !next.done && events.includes("resumed");
+    });
+    expect(events).toEqual(
+      expect.arrayContaining(["disconnected", "reconnecting", "resumed"]),
+    );
+  } finally {
+    await reader.cancel();
+    await client.end();
+  }
+});
@@ -1,15 +1,121 @@
-import type { Writable } from "node:stream";
 import pg, { type Client, type ClientConfig } from "pg";
 import { CopyBothStreamQuery, both } from "pg-copy-streams";
 import { AcknowledgePacket } from "./AcknowledgePacket.js";
+import type { CheckpointStore } from "./CheckpointStore.js";
+import { Lsn, type LsnLike } from "./Lsn.js";
+import type { ReplicationMetrics } from "./ReplicationMetrics.js";
 
-interface LogicalReplicationStreamInit {
+export interface LogicalReplicationStreamInit {
+  binary?: boolean;
+  /**
+   * Store of the LSN up to which the application has processed changes. When
+   * a checkpoint was saved, replication starts from the checkpoint instead of
+   * `lsn`, and `checkpoint()` saves the LSN before acknowledging it.
+   */
+  checkpointStore?: CheckpointStore;
   clientConfig: ClientConfig;
   includeCustomMessages?: boolean;
-  lsn?: string;
+  lsn?: LsnLike;
+  /**
+   * Metrics to record received bytes, acknowledgements and reconnects in.
+   * Pass the same instance to `PgOutputDecoderStream` to record lag.
+   */
+  metrics?: ReplicationMetrics;
+  /**
+   * Only send changes from transactions without an origin with `none`, such
+   * as to skip changes applied by another replication consumer that set up a
+   * replication origin. Requires PostgreSQL 16+. Defaults to all changes.
+   */
+  origin?: "any" | "none";
   protocolVersion: number;
   publicationName: string;
+  /**
+   * Reconnect when the connection is lost, resuming replication from the last
+   * acknowledged LSN. Other errors, such as errors of the application, error
+   * the stream instead. Disabled by default.
+   */
+  reconnect?: boolean | ReconnectOptions;
   slotName: string;
+  /**
+   * Interval in milliseconds between standby status updates sent to the
+   * server with the last acknowledged LSN. Set to `0` to disable.
+   *
+   * @default 10000
+   */
+  statusInterval?: number;
+  streaming?: boolean;
+  twoPhase?: boolean;
+}
+
+interface ReconnectOptions {
+  /**
+   * Delay in milliseconds before the first reconnect attempt. The delay is
+   * doubled for each consecutive attempt.
+   *
+   * @default 1000
+   */
+  initialDelay?: number;
+  /**
+   * Maximum number of consecutive reconnect attempts before the stream errors.
+   *
+   * @default Infinity
+   */
+  maxAttempts?: number;
+  /**
+   * Maximum delay in milliseconds between reconnect attempts.
+   *
+   * @default 30000
+   */
+  maxDelay?: number;
+}
+
+export interface LogicalReplicationStreamEventMap {
+  /** The connection to the server was lost. */
+  disconnected: CustomEvent<{ error: unknown }>;
+  /** A reconnect attempt is scheduled after `delay` milliseconds. */
+  reconnecting: CustomEvent<{ attempt: number; delay: number; error: unknown }>;
+  /** Replication resumed from `lsn` after reconnecting. */
+  resumed: CustomEvent<{ lsn: Lsn }>;
+}
+
+/** Codes of socket errors when a connection is lost or cannot be made. */
+const SOCKET_ERROR_CODES = new Set([
+  "EAI_AGAIN",
+  "ECONNABORTED",
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+  "ENOTFOUND",
+  "EPIPE",
+  "ETIMEDOUT",
+]);
+
+/**
+ * Determines whether an error is expected to be resolved by reconnecting.
+ * Lost connections, connection errors and replication slots in use by another
+ * connection are retryable, other errors are not.
+ */
+function isRetryable(error: unknown) {
+  // the connection ended without an error
+  if (error === undefined) {
+    return true;
+  }
+  if (!(error instanceof pg.DatabaseError)) {
+    const code = (error as NodeJS.ErrnoException | null)?.code;
+    return (
+      (code !== undefined && SOCKET_ERROR_CODES.has(code)) ||
+      (error instanceof Error &&
+        error.message.startsWith("Connection terminated"))
+    );
+  }
+  const code = error.code ?? "";
+  return (
+    code === "55006" || // object_in_use, replication slot is active for PID
+    code.startsWith("08") || // connection_exception
+    code.startsWith("53") || // insufficient_resources
+    code.startsWith("57P") // operator_intervention
+  );
 }
 
 /**
@@ -19,93 +125,140 @@ interface LogicalReplicationStreamInit {
  * parsed by a downstream consumer.
  */
 export class LogicalReplicationStream extends ReadableStream<Uint8Array> {
-  readonly #client: Client;
+  /**
+   * The last LSN acknowledged by the application, or the checkpoint that
+   * replication started from. `null` until either is known.
+   */
+  #acknowledgedLsn: Lsn | null = null;
+  /** Number of consecutive reconnect attempts. */
+  #attempt = 0;
+  readonly #checkpointStore: CheckpointStore | null;
+  #client: Client;
+  readonly #connect: (lsn: Lsn) => [Client, CopyBothStreamQuery];
+  #connected = false;
   readonly #controller = new AbortController();
-  readonly #stream: CopyBothStreamQuery;
-  readonly #writer: Writable;
+  readonly #events = new EventTarget();
+  readonly #metrics: ReplicationMetrics | null;
+  readonly #reconnect: Required<ReconnectOptions> | null;
+  #reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  /**
+   * The LSN to resume replication from after reconnecting, which follows the
+   * last acknowledged LSN like the position confirmed by status updates.
+   */
+  #resumeLsn: Lsn;
+  readonly #statusInterval: number;
+  #statusTimer: ReturnType<typeof setInterval> | undefined;
+  #stream: CopyBothStreamQuery;
 
   constructor(
     init: LogicalReplicationStreamInit,
     queuingStrategy?: QueuingStrategy<Uint8Array>,
   ) {
     const {
+      binary = false,
+      checkpointStore,
       clientConfig,
       includeCustomMessages = false,
-      lsn = "0/00000000",
+      lsn = Lsn.ZERO,
+      metrics,
+      origin,
       protocolVersion,
       publicationName,
+      reconnect = false,
       slotName,
+      statusInterval = 10000,
+      streaming = false,
+      twoPhase = false,
     } = init;
 
-    const sql = `START_REPLICATION SLOT "${slotName}" LOGICAL ${lsn} (proto_version '${protocolVersion}', publication_names '${publicationName}', messages '${includeCustomMessages}')`;
-    const stream = both(sql, { alignOnCopyDataFrame: true });
+    const options = [
+      `proto_version '${protocolVersion}'`,
+      `publication_names '${publicationName}'`,
+      `messages '${includeCustomMessages}'`,
+    ];
+    // only send newer options when enabled to support older servers
+    if (binary) {
+      options.push(`binary 'true'`);
+    }
+    if (streaming) {
+      options.push(`streaming 'on'`);
+    }
+    if (twoPhase) {
+      options.push(`two_phase 'on'`);
+    }
+    if (origin) {
+      options.push(`origin '${origin}'`);
+    }
 
-    const client = new pg.Client({
-      ...clientConfig,
-      // @ts-expect-error this field is accepted but not in the types
-      replication: "database",
-    });
+    const connect = (lsn: Lsn): [Client, CopyBothStreamQuery] => {
+      const sql = `START_REPLICATION SLOT "${slotName}" LOGICAL ${lsn} (${options.join(", ")})`;
+      const stream = both(sql, { alignOnCopyDataFrame: true });
+
+      const client = new pg.Client({
+        ...clientConfig,
+        // @ts-expect-error this field is accepted but not in the types
+        replication: "database",
+      });
+
+      return [client, stream];
+    };
+
+    const startLsn = Lsn.from(lsn);
+    const [client, stream] = connect(startLsn);
 
     super(
       {
         start: async (controller) => {
-          client.once("end", () => {
+          let [startClient, startStream] = [client, stream];
+          if (checkpointStore) {
+            let checkpoint;
             try {
-              controller.close();
-            } catch {
-              // controller may be closed already
+              checkpoint = await checkpointStore.load();
+            } catch (e) {
+              controller.error(e);
+              return;
             }
-          });
-
-          await client.connect();
-
-          // send the START_REPLICATION command and begin streaming
-          client.query(stream);
-
-          // pause the readable stream initially to enable manual mode
-          stream.pause();
-
-          // when data comes in, queue the chunk then pause again
-          stream.on("data", (chunk: Buffer) => {
-            // even though Buffer is a Uint8Array, it's not the same Uint8Array 😵
-            controller.enqueue(new Uint8Array(chunk));
-            stream.pause();
-          });
-
-          // other lifecycle handlers
-          stream.on("end", () => {
-            if (!this.#controller.signal.aborted) {
-              controller.close();
-            }
-          });
-          stream.on("close", () => {
-            if (!this.#controller.signal.aborted) {
-              controller.close();
+            if (this.#controller.signal.aborted) {
+              return;
             }
-          });
-          stream.on("error", (e) => {
-            if (!this.#controller.signal.aborted) {
-              if (e.message === "Connection terminated") {
-                controller.close();
-              } else {
-                controller.error(e);
-              }
+            if (checkpoint) {
+              [startClient, startStream] = this.#restart(checkpoint);
             }
-          });
+          }
+          try {
+            await startClient.connect();
+          } catch (e) {
+            this.#disconnect(controller, startClient, e);
+            return;
+          }
+          this.#start(controller, startClient, startStream);
         },
-        pull() {
+        pull: () => {
           // resume streaming to pull another packet
           // the "data" handler will pause again after a packet is read
-          stream.resume();
+          this.#stream.resume();
         },
         cancel: () => this.dispose(),
       },
       queuingStrategy,
     );
 
+    this.#checkpointStore = checkpointStore ?? null;
     this.#client = client;
+    this.#metrics = metrics ?? null;
+    this.#connect = connect;
+    this.#reconnect =
+      reconnect === false
+        ? null
+        : {
+            initialDelay: 1000,
+            maxAttempts: Infinity,
+            maxDelay: 30000,
+            ...(reconnect === true ? {} : reconnect),
+          };
+    this.#resumeLsn = startLsn;
+    this.#statusInterval = statusInterval;
     this.#stream = stream;
-    this.#writer = stream;
   }
 
   [Symbol.asyncDispose]() {
@@ -123,20 +276,65 @@ export class LogicalReplicationStream extends ReadableStream<Uint8Array> {
    * Acknowledging a LSN implicitly acknowledges all WAL events prior to that
    * LSN.
    *
+   * The acknowledged LSN is also reported in periodic status updates and in
+   * replies to keepalive messages. When reconnecting, replication resumes from
+   * the acknowledged LSN. Acknowledging an LSN before a previously acknowledged
+   * LSN has no effect.
+   *
    * @param lsn The LSN to acknowledge up to.
    */
-  async acknowledge(lsn: string) {
-    const { buffer } = new AcknowledgePacket(lsn);
-    await new Promise<void>((resolve, reject) =>
-      this.#writer.write(buffer, (error) =>
-        error ? reject(error) : resolve(),
-      ),
-    );
+  async acknowledge(lsn: LsnLike) {
+    this.#acknowledgedLsn = this.#acknowledgedLsn
+      ? Lsn.max(this.#acknowledgedLsn, lsn)
+      : Lsn.from(lsn);
+    this.#resumeLsn = Lsn.max(this.#resumeLsn, Lsn.from(lsn).add(1));
+    this.#metrics?.recordAcknowledgement(lsn);
+    // the acknowledged LSN is sent once the connection is restored
+    if (this.#reconnect && !this.#connected) {
+      return;
+    }
+    await this.#sendStatusUpdate();
+  }
+
+  /**
+   * Saves the LSN to the `checkpointStore`, then acknowledges the LSN. Call
+   * this once all changes up to the LSN were processed.
+   *
+   * To save the checkpoint atomically with the writes of a sink, save it with
+   * the store directly as part of the sink's transaction and call
+   * `acknowledge()` after the transaction commits instead.
+   *
+   * @param lsn The LSN to save and acknowledge up to.
+   */
+  async checkpoint(lsn: LsnLike) {
+    if (!this.#checkpointStore) {
+      throw new TypeError("checkpointStore is not configured");
+    }
+    await this.#checkpointStore.save(Lsn.from(lsn));
+    await this.acknowledge(lsn);
+  }
+
+  addEventListener<K extends keyof LogicalReplicationStreamEventMap>(
+    type: K,
+    listener: (event: LogicalReplicationStreamEventMap[K]) => void,
+    options?: AddEventListenerOptions | boolean,
+  ) {
+    this.#events.addEventListener(type, listener as EventListener, options);
+  }
+
+  removeEventListener<K extends keyof LogicalReplicationStreamEventMap>(
+    type: K,
+    listener: (event: LogicalReplicationStreamEventMap[K]) => void,
+    options?: EventListenerOptions | boolean,
+  ) {
+    this.#events.removeEventListener(type, listener as EventListener, options);
   }
 
   async dispose() {
     // abort the controller to stop processing events above
     this.#controller.abort();
+    clearInterval(this.#statusTimer);
+    clearTimeout(this.#reconnectTimer);
 
     // pause the stream in case there is a pending read
     this.#stream.pause();
@@ -150,4 +348,187 @@ export class LogicalReplicationStream extends ReadableStream<Uint8Array> {
     // it's still necessary to close the Client instance
     await this.#client.end();
   }
+
+  /**
+   * Handles the loss of a connection, either by reconnecting or by ending the
+   * stream.
+   */
+  #disconnect(
+    controller: ReadableStreamDefaultController<Uint8Array>,
+    client: Client,
+    error?: unknown,
+  ) {
+    // ignore events from previous connections and from disposing
+    if (this.#controller.signal.aborted || client !== this.#client) {
+      return;
+    }
+
+    const wasConnected = this.#connected;
+    this.#connected = false;
+    clearInterval(this.#statusTimer);
+
+    if (wasConnected) {
+      this.#dispatch("disconnected", { error });
+    }
+
+    const options = this.#reconnect;
+    if (
+      !options ||
+      !isRetryable(error) ||
+      this.#attempt >= options.maxAttempts
+    ) {
+      if (error instanceof Error && error.message !== "Connection terminated") {
+        controller.error(error);
+      } else {
+        try {
+          controller.close();
+        } catch {
+          // controller may be closed already
+        }
+      }
+      return;
+    }
+
+    // the previous client may still be connected after a server error
+    client.end().catch(() => {});
+
+    // exponential backoff with jitter between half and the full delay
+    const attempt = ++this.#attempt;
+    const backoff = Math.min(
+      options.maxDelay,
+      options.initialDelay * 2 ** (attempt - 1),
+    );
+    const delay = Math.round(backoff / 2 + (Math.random() * backoff) / 2);
+    this.#metrics?.recordReconnect();
+    this.#dispatch("reconnecting", { attempt, delay, error });
+
+    this.#reconnectTimer = setTimeout(async () => {
+      const [client, stream] = this.#connect(this.#resumeLsn);
+      this.#client = client;
+      this.#stream = stream;
+      try {
+        await client.connect();
+      } catch (e) {
+        this.#disconnect(controller, client, e);
+        return;
+      }
+      this.#start(controller, client, stream);
+    }, delay);
+  }
+
+  #dispatch<K extends keyof LogicalReplicationStreamEventMap>(
+    type: K,
+    detail: LogicalReplicationStreamEventMap[K]["detail"],
+  ) {
+    this.#events.dispatchEvent(new CustomEvent(type, { detail }));
+  }
+
+  /**
+   * Replaces the client that has not connected yet with one starting
+   * replication after the checkpoint. Changes up to the checkpoint were
+   * processed, so the checkpoint is also acknowledged.
+   */
+  #restart(checkpoint: Lsn): [Client, CopyBothStreamQuery] {
+    // resume from the position that acknowledging the checkpoint confirms,
+    // in case the acknowledgement did not reach the server
+    const resumeLsn = checkpoint.add(1);
+    const [client, stream] = this.#connect(resumeLsn);
+    this.#client = client;
+    this.#stream = stream;
+    this.#acknowledgedLsn = checkpoint;
+    this.#resumeLsn = resumeLsn;
+    this.#metrics?.recordAcknowledgement(checkpoint);
+    return [client, stream];
+  }
+
+  /**
+   * Sends a standby status update with the last acknowledged LSN. Before an
+   * LSN is acknowledged, the update reports no position so that it does not
+   * confirm any WAL.
+   */
+  async #sendStatusUpdate() {
+    const { buffer } = new AcknowledgePacket(this.#acknowledgedLsn);
+    await new Promise<void>((resolve, reject) =>
+      this.#stream.write(buffer, (error) =>
+        error ? reject(error) : resolve(),
+      ),
+    );
+  }
+
+  /**
+   * Sends the `START_REPLICATION` command on a connected client and forwards
+   * packets to the stream controller.
+   */
+  #start(
+    controller: ReadableStreamDefaultController<Uint8Array>,
+    client: Client,
+    stream: CopyBothStreamQuery,
+  ) {
+    if (this.#controller.signal.aborted) {
+      return;
+    }
+
+    // several handlers may observe the same disconnect
+    let disconnected = false;
+    const disconnect = (error?: unknown) => {
+      if (!disconnected) {
+        disconnected = true;
+        this.#disconnect(controller, client, error);
+      }
+    };
+
+    client.once("end", () => disconnect());
+    client.on("error", (e) => disconnect(e));
+
+    // send the START_REPLICATION command and begin streaming
+    client.query(stream);
+    this.#connected = true;
+
+    // periodically report the acknowledged LSN to keep the connection
+    // alive when the application acknowledges infrequently
+    // write errors are surfaced by the stream "error" handler below
+    if (this.#statusInterval > 0) {
+      this.#statusTimer = setInterval(() => {
+        if (this.#acknowledgedLsn) {
+          this.#sendStatusUpdate().catch(() => {});
+        }
+      }, this.#statusInterval);
+      this.#statusTimer.unref();
+    }
+
+    // pause the readable stream initially to enable manual mode
+    stream.pause();
+
+    // when data comes in, queue the chunk then pause again
+    let resumed = false;
+    stream.on("data", (chunk: Buffer) => {
+      // the first packet confirms replication started after reconnecting
+      if (!resumed) {
+        resumed = true;
+        if (this.#attempt > 0) {
+          this.#attempt = 0;
+          this.#dispatch("resumed", { lsn: this.#resumeLsn });
+        }
+      }
+      // reply to keepalives requesting a response, without moving
+      // past the LSN acknowledged by the application
+      if (chunk[0] === 0x6b /*k*/ && chunk[17] === 1) {
+        this.#sendStatusUpdate().catch(() => {});
+      }
+      this.#metrics?.recordPacket(chunk.length);
+      // even though Buffer is a Uint8Array, it's not the same Uint8Array 😵
+      controller.enqueue(new Uint8Array(chunk));
+      stream.pause();
+    });
+
+    // other lifecycle handlers
+    stream.on("end", () => disconnect());
+    stream.on("close", () => disconnect());
+    stream.on("error", (e) => disconnect(e));
+
+    // continue a pending read interrupted by reconnecting
+    if ((controller.desiredSize ?? 0) > 0) {
+      stream.resume();
+    }
+  }
 }
@@ -0,0 +1,61 @@
+import { describe, expect, test } from "vitest";
+import { Lsn } from "./Lsn.js";
+
+describe("parse", () => {
+  test("parses padded and unpadded LSNs to the same value", () => {
+    expect(Lsn.parse("0/1A").value).toBe(0x1an);
+    expect(Lsn.parse("0/0000001A").value).toBe(0x1an);
+    expect(Lsn.parse("16/b374d848").value).toBe(0x16b374d848n);
+  });
+
+  test("throws on invalid LSNs", () => {
+    expect(() => Lsn.parse("")).toThrow(TypeError);
+    expect(() => Lsn.parse("1A")).toThrow(/invalid LSN "1A"/);
+    expect(() => Lsn.parse("0/123456789")).toThrow(TypeError);
+    expect(() => Lsn.parse("G/0")).toThrow(TypeError);
+  });
+});
+
+test("from", () => {
+  const lsn = Lsn.parse("1/0");
+  expect(Lsn.from(lsn)).toBe(lsn);
+  expect(Lsn.from("1/0")).toEqual(lsn);
+  expect(Lsn.from(0x100000000n)).toEqual(lsn);
+  expect(() => Lsn.from(-1n)).toThrow(RangeError);
+});
+
+test("toString", () => {
+  expect(Lsn.parse("0/0000001a").toString()).toBe("0/1A");
+  expect(Lsn.parse("00000016/B374D848").toString()).toBe("16/B374D848");
+  expect(JSON.stringify({ lsn: Lsn.parse("1/2") })).toBe('{"lsn":"1/2"}');
+});
+
+test("compare", () => {
+  // string comparison would order these incorrectly
+  expect(Lsn.compare("0/9", "0/10")).toBe(-1);
+  expect(Lsn.compare("1/0", "0/FFFFFFFF")).toBe(1);
+  expect(Lsn.compare("0/1A", "0/0000001A")).toBe(0);
+  expect(["0/10", "1/0", "0/9"].sort(Lsn.compare)).toEqual([
+    "0/9",
+    "0/10",
+    "1/0",
+  ]);
+
+  const lsn = Lsn.parse("0/10");
+  expect(lsn.equals("0/00000010")).toBe(true);
+  expect(lsn.isAfter("0/9")).toBe(true);
+  expect(lsn.isBefore("0/9")).toBe(false);
+});
+
+test("min and max", () => {
+  expect(Lsn.max("0/9", "0/10", "0/A").toString()).toBe("0/10");
+  expect(Lsn.min("0/9", "0/10", "0/A").toString()).toBe("0/9");
+});
+
+test("arithmetic", () => {
+  expect(Lsn.parse("0/FFFFFFFF").add(1).toString()).toBe("1/0");
+  expect(Lsn.parse("1/0").subtract(1n).toString()).toBe("0/FFFFFFFF");
+  expect(Lsn.parse("1/0").distance("0/FFFFFF00")).toBe(256n);
+  expect(Lsn.parse("0/0").distance("0/10")).toBe(-16n);
+  expect(() => Lsn.ZERO.subtract(1)).toThrow(RangeError);
+});
@@ -0,0 +1,136 @@
+const MAX_VALUE = 0xffffffffffffffffn;
+
+/** A value accepted wherever an LSN is expected. */
+export type LsnLike = Lsn | string | bigint;
+
+/**
+ * PostgreSQL Log Sequence Number (LSN), a 64-bit position in the Write-Ahead
+ * Log (WAL). LSNs are formatted as two hexadecimal 32-bit numbers separated by
+ * a slash, such as `16/B374D848`.
+ *
+ * Unlike LSN strings, which may be formatted with or without padding, `Lsn`
+ * values can be safely compared and used in arithmetic.
+ *
+ * @see {@link https://www.postgresql.org/docs/current/datatype-pg-lsn.html PostgreSQL docs}
+ */
+export class Lsn {
+  static readonly ZERO = new Lsn(0n);
+
+  /** The position in the WAL in bytes. */
+  readonly value: bigint;
+
+  constructor(value: bigint) {
+    if (value < 0n || value > MAX_VALUE) {
+      throw new RangeError(`LSN ${value} is out of range`);
+    }
+    this.value = value;
+  }
+
+  /**
+   * Compares two LSNs. Returns a negative number if `a` is before `b`, a
+   * positive number if `a` is after `b`, or zero if they are equal. Suitable
+   * for use with `Array.prototype.sort`.
+   */
+  static compare(a: LsnLike, b: LsnLike) {
+    const x = Lsn.from(a).value;
+    const y = Lsn.from(b).value;
+    return x < y ? -1 : x > y ? 1 : 0;
+  }
+
+  static from(value: LsnLike) {
+    if (value instanceof Lsn) {
+      return value;
+    }
+    if (typeof value === "bigint") {
+      return new Lsn(value);
+    }
+    return Lsn.parse(value);
+  }
+
+  /** Creates an LSN from the upper and lower 32 bits. */
+  static fromParts(upper: number, lower: number) {
+    return new Lsn((BigInt(upper >>> 0) << 32n) | BigInt(lower >>> 0));
+  }
+
+  static max(first: LsnLike, ...rest: LsnLike[]) {
+    return rest.reduce<Lsn>(
+      (max, x) => (Lsn.compare(x, max) > 0 ? Lsn.from(x) : max),
+      Lsn.from(first),
+    );
+  }
+
+  static min(first: LsnLike, ...rest: LsnLike[]) {
+    return rest.reduce<Lsn>(
+      (min, x) => (Lsn.compare(x, min) < 0 ? Lsn.from(x) : min),
+      Lsn.from(first),
+    );
+  }
+
+  /**
+   * Parses an LSN in the `XXXXXXXX/XXXXXXXX` format.
+   *
+   * @throws {TypeError} if the value is not a valid LSN.
+   */
+  static parse(value: string) {
+    const match = /^([0-9a-f]{1,8})\/([0-9a-f]{1,8})$/i.exec(value.trim());
+    if (!match) {
+      throw new TypeError(`invalid LSN "${value}"`);
+    }
+    return Lsn.fromParts(parseInt(match[1]!, 16), parseInt(match[2]!, 16));
+  }
+
+  /** The upper 32 bits of the LSN. */
+  get upper() {
+    return Number(this.value >> 32n);
+  }
+
+  /** The lower 32 bits of the LSN. */
+  get lower() {
+    return Number(this.value & 0xffffffffn);
+  }
+
+  /** Returns the LSN `bytes` after this LSN. */
+  add(bytes: number | bigint) {
+    return new Lsn(this.value + BigInt(bytes));
+  }
+
+  compare(other: LsnLike) {
+    return Lsn.compare(this, other);
+  }
+
+  /**
+   * Returns the number of bytes from `other` to this LSN, which is negative if
+   * `other` is after this LSN.
+   */
+  distance(other: LsnLike) {
+    return this.value - Lsn.from(other).value;
+  }
+
+  equals(other: LsnLike) {
+    return this.compare(other) === 0;
+  }
+
+  isAfter(other: LsnLike) {
+    return this.compare(other) > 0;
+  }
+
+  isBefore(other: LsnLike) {
+    return this.compare(other) < 0;
+  }
+
+  /** Returns the LSN `bytes` before this LSN. */
+  subtract(bytes: number | bigint) {
+    return new Lsn(this.value - BigInt(bytes));
+  }
+
+  toJSON() {
+    return this.toString();
+  }
+
+  /** Formats the LSN the same as PostgreSQL, such as `16/B374D848`. */
+  toString() {
+    const upper = this.upper.toString(16).toUpperCase();
+    const lower = this.lower.toString(16).toUpperCase();
+    return `${upper}/${lower}`;
+  }
+}
@@ -0,0 +1,114 @@
+import { expect, test } from "vitest";
+import type { BackfillMessage } from "./BackfillStream.js";
+import {
+  jsonCodec,
+  MessageChannel,
+  MessageChannels,
+  textCodec,
+} from "./MessageChannels.js";
+
+const systemTime = new Date("2024-01-01T00:00:00Z");
+
+function message(
+  prefix: string,
+  content: string,
+  lsn: string,
+): BackfillMessage {
+  return {
+    type: "waldata",
+    currentLsn: lsn,
+    messageLsn: lsn,
+    systemTime,
+    message: {
+      tag: "message",
+      flags: 1,
+      transactional: true,
+      messageLsn: lsn,
+      prefix,
+      content: textCodec.encode(content),
+    },
+  };
+}
+
+const orders = new MessageChannel("orders", jsonCodec<{ id: number }>());
+const logs = new MessageChannel("logs", textCodec);
+
+test("routes messages to subscribed channels", async () => {
+  const channels = new MessageChannels();
+  const orderMessages = channels.subscribe(orders);
+  const logMessages = channels.subscribe(logs);
+  const otherLogMessages = channels.subscribe(logs);
+
+  const writer = channels.getWriter();
+  const writes = (async () => {
+    await writer.write(message("orders", `{"id":1}`, "0/10"));
+    await writer.write(message("logs", "started", "0/20"));
+    await writer.write(message("unknown", "dropped", "0/30"));
+    await writer.write({
+      type: "keepalive",
+      currentLsn: "0/40",
+      systemTime,
+      shouldRespond: false,
+    });
+    await writer.write(message("orders", `{"id":2}`, "0/50"));
+    await writer.close();
+  })();
+
+  const read = async <T>(stream: ReadableStream<T>) => {
+    const items = [];
+    for await (const item of stream) {
+      items.push(item);
+    }
+    return items;
+  };
+  const [orderItems, logItems, otherLogItems] = await Promise.all([
+    read(orderMessages),
+    read(logMessages),
+    read(otherLogMessages),
+    writes,
+  ]);
+
+  expect(orderItems).toEqual([
+    {
+      prefix: "orders",
+      value: { id: 1 },
+      transactional: true,
+      messageLsn: "0/10",
+      currentLsn: "0/10",
+      systemTime,
+    },
+    expect.objectContaining({ value: { id: 2 }, currentLsn: "0/50" }),
+  ]);
+  expect(logItems.map((x) => x.value)).toEqual(["started"]);
+  expect(otherLogItems).toEqual(logItems);
+});
+
+test("stops routing to cancelled subscriptions", async () => {
+  const channels = new MessageChannels();
+  const cancelled = channels.subscribe(logs);
+  const subscription = channels.subscribe(logs).getReader();
+  await cancelled.cancel();
+
+  const writer = channels.getWriter();
+  await writer.write(message("logs", "first", "0/10"));
+  expect(await subscription.read()).toMatchObject({
+    value: { value: "first" },
+  });
+});
+
+test("errors subscriptions when a message cannot be decoded", async () => {
+  const channels = new MessageChannels();
+  const subscription = channels.subscribe(orders).getReader();
+
+  const writer = channels.getWriter();
+  await expect(
+    writer.write(message("orders", "not json", "0/10")),
+  ).rejects.toThrow(SyntaxError);
+  await expect(subscription.read()).rejects.toThrow(SyntaxError);
+});
+
+test("encodes values with codecs", () => {
+  const codec = jsonCodec<{ id: number }>();
+  expect(codec.decode(codec.encode({ id: 1 }))).toEqual({ id: 1 });
+  expect(textCodec.decode(textCodec.encode("héllo"))).toBe("héllo");
+});
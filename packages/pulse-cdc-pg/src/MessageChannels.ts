@@ -0,0 +1,199 @@
+import type { ClientBase, Pool } from "pg";
+import type { BackfillMessage } from "./BackfillStream.js";
+import type { PgoutputMessage } from "./messages.js";
+
+/** Converts the values of a channel to and from message content. */
+export interface MessageCodec<T> {
+  encode(value: T): Uint8Array;
+  decode(content: Uint8Array): T;
+}
+
+/** Codec of UTF-8 encoded text. */
+export const textCodec: MessageCodec<string> = {
+  encode: (value) => new TextEncoder().encode(value),
+  decode: (content) => new TextDecoder().decode(content),
+};
+
+/**
+ * Returns a codec of UTF-8 encoded JSON. The decoded values are not validated,
+ * so `T` must match the values emitted on the channel.
+ */
+export function jsonCodec<T>(): MessageCodec<T> {
+  return {
+    encode: (value) => textCodec.encode(JSON.stringify(value)),
+    decode: (content) => JSON.parse(textCodec.decode(content)) as T,
+  };
+}
+
+export interface ChannelMessage<T> {
+  prefix: string;
+  value: T;
+  /** Whether the message was emitted as part of a transaction. */
+  transactional: boolean;
+  /** LSN of the message, which is `null` within a streamed transaction. */
+  messageLsn: string | null;
+  /** LSN to acknowledge once the message was processed. */
+  currentLsn: string;
+  systemTime: Date;
+}
+
+export interface EmitMessageOptions {
+  /**
+   * Whether the message is emitted as part of the current transaction. A
+   * transactional message is only decoded once the transaction commits,
+   * while a non-transactional message is decoded immediately, even when the
+   * transaction rolls back.
+   *
+   * @default true
+   */
+  transactional?: boolean;
+}
+
+/**
+ * A typed channel of custom messages emitted with `pg_logical_emit_message()`,
+ * identified by the prefix of the messages.
+ *
+ * @example
+ * ```ts
+ * const orders = new MessageChannel("orders", jsonCodec<Order>());
+ * await orders.emit(client, { id: 1, total: 100 });
+ * ```
+ */
+export class MessageChannel<T> {
+  readonly prefix: string;
+  readonly codec: MessageCodec<T>;
+
+  constructor(prefix: string, codec: MessageCodec<T>) {
+    this.prefix = prefix;
+    this.codec = codec;
+  }
+
+  /**
+   * Emits a message to the WAL with `pg_logical_emit_message()`, using a
+   * regular (non-replication) connection. Returns the LSN of the message.
+   */
+  async emit(
+    client: ClientBase | Pool,
+    value: T,
+    options: EmitMessageOptions = {},
+  ): Promise<string> {
+    const { transactional = true } = options;
+    const result = await client.query<{ lsn: string }>(
+      // ! cast $3 as bytea or Postgres interprets it as encoded text
+      `SELECT pg_logical_emit_message($1, $2, $3::bytea)::text AS lsn`,
+      [transactional, this.prefix, this.codec.encode(value)],
+    );
+    return result.rows[0]!.lsn;
+  }
+}
+
+interface Subscriber {
+  channel: MessageChannel<unknown>;
+  writer: WritableStreamDefaultWriter<ChannelMessage<unknown>>;
+}
+
+/**
+ * Implementation of `WritableStream` that routes custom messages to the
+ * channels subscribed to their prefix. Accepts the messages emitted by
+ * `PgOutputDecoderStream` or `BackfillStream`, which requires the
+ * `includeCustomMessages` option of `LogicalReplicationStream`.
+ *
+ * Each subscription is a `ReadableStream` of the decoded values, and writes
+ * wait for subscriptions to read the previous message. Messages with a prefix
+ * that has no subscription are dropped, as are messages emitted before a
+ * channel was subscribed. Subscriptions are closed when this stream is closed,
+ * and errored when this stream is aborted or a message cannot be decoded.
+ *
+ * @example
+ * ```ts
+ * const channels = new MessageChannels();
+ * const subscription = channels.subscribe(orders);
+ * messages.pipeTo(channels);
+ *
+ * for await (const { value, currentLsn } of subscription) {
+ *   // ... process the order
+ *   await replication.acknowledge(currentLsn);
+ * }
+ * ```
+ */
+export class MessageChannels extends WritableStream<BackfillMessage> {
+  readonly #subscribers: Set<Subscriber>;
+
+  constructor() {
+    const subscribers = new Set<Subscriber>();
+    const abort = async (reason: unknown) => {
+      const writers = [...subscribers].map((x) => x.writer);
+      subscribers.clear();
+      await Promise.allSettled(writers.map((x) => x.abort(reason)));
+    };
+
+    super({
+      async write(wal) {
+        if (wal.type !== "waldata" || wal.message.tag !== "message") {
+          return;
+        }
+        const { message } = wal;
+        for (const subscriber of subscribers) {
+          if (subscriber.channel.prefix !== message.prefix) {
+            continue;
+          }
+          try {
+            await subscriber.writer.ready;
+          } catch {
+            // the subscription was cancelled
+            subscribers.delete(subscriber);
+            continue;
+          }
+          let value;
+          try {
+            value = subscriber.channel.codec.decode(message.content);
+          } catch (e) {
+            await abort(e);
+            throw e;
+          }
+          void subscriber.writer
+            .write(toChannelMessage(message, value, wal))
+            .catch(() => {});
+        }
+      },
+      async close() {
+        const writers = [...subscribers].map((x) => x.writer);
+        subscribers.clear();
+        await Promise.allSettled(writers.map((x) => x.close()));
+      },
+      abort,
+    });
+    this.#subscribers = subscribers;
+  }
+
+  /**
+   * Returns a stream of the messages emitted on a channel. A channel may be
+   * subscribed more than once, and each subscription receives every message.
+   */
+  subscribe<T>(channel: MessageChannel<T>): ReadableStream<ChannelMessage<T>> {
+    const { readable, writable } = new TransformStream<
+      ChannelMessage<T>,
+      ChannelMessage<T>
+    >();
+    this.#subscribers.add({
+      channel: channel as MessageChannel<unknown>,
+      writer: writable.getWriter() as Subscriber["writer"],
+    });
+    return readable;
+  }
+}
+
+function toChannelMessage<T>(
+  message: PgoutputMessage,
+  value: T,
+  wal: { currentLsn: string; systemTime: Date },
+): ChannelMessage<T> {
+  return {
+    prefix: message.prefix,
+    value,
+    transactional: message.transactional,
+    messageLsn: message.messageLsn,
+    currentLsn: wal.currentLsn,
+    systemTime: wal.systemTime,
+  };
+}
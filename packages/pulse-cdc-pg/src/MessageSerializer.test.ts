@@ -0,0 +1,223 @@
+import pg from "pg";
+import { expect, test } from "vitest";
+import type { BackfillMessage } from "./BackfillStream.js";
+import { PgOutputProtocolError } from "./errors.js";
+import {
+  MessageDeserializer,
+  MessageSerializer,
+  type SerializedMessage,
+} from "./MessageSerializer.js";
+import { column, relation, systemTime, wal } from "../test/test-utils.js";
+
+const users = relation("users", {
+  columns: [
+    column("id", 20, { parser: pg.types.getTypeParser(20) }),
+    column("created_at", 1184, { parser: pg.types.getTypeParser(1184) }),
+  ],
+});
+
+function roundTrip(messages: BackfillMessage[]) {
+  const serializer = new MessageSerializer();
+  const serialized = messages.map((x) =>
+    JSON.parse(JSON.stringify(serializer.serialize(x))),
+  );
+  const deserializer = new MessageDeserializer();
+  return {
+    serialized,
+    deserialized: serialized.map((x) => deserializer.deserialize(x)),
+  };
+}
+
+test("round trips values that are not valid JSON", () => {
+  const row = {
+    id: 9007199254740993n,
+    created_at: systemTime,
+    data: new Uint8Array([0, 1, 255]),
+    score: NaN,
+    limit: Infinity,
+    missing: undefined,
+    nested: { $date: "not a date", list: [1, "a", null] },
+  };
+  const { deserialized } = roundTrip([
+    wal(users),
+    wal({ tag: "insert", relation: users, new: row }),
+    {
+      type: "snapshot",
+      lsn: "0/5",
+      message: { tag: "read", relation: users, new: row },
+    },
+    {
+      type: "keepalive",
+      currentLsn: "0/10",
+      systemTime,
+      shouldRespond: false,
+    },
+  ]);
+
+  expect(deserialized).toStrictEqual([
+    wal(users),
+    wal({ tag: "insert", relation: users, new: row }),
+    {
+      type: "snapshot",
+      lsn: "0/5",
+      message: { tag: "read", relation: users, new: row },
+    },
+    {
+      type: "keepalive",
+      currentLsn: "0/10",
+      systemTime,
+      shouldRespond: false,
+    },
+  ]);
+});
+
+test("references relations after their first occurrence", () => {
+  const { serialized, deserialized } = roundTrip([
+    wal({ tag: "insert", relation: users, new: { id: 1n } }),
+    wal({ tag: "insert", relation: users, new: { id: 2n } }),
+    wal({
+      tag: "truncate",
+      cascade: false,
+      restartIdentity: false,
+      relations: [users],
+    }),
+  ]);
+
+  expect(serialized[0].message.relation).toMatchObject({
+    oid: 16384,
+    version: 1,
+    columns: [{ name: "id", typeOid: 20 }, { name: "created_at" }],
+  });
+  expect(serialized[1].message.relation).toEqual({
+    $relation: { id: 0, oid: 16384, version: 1 },
+  });
+  expect(serialized[2].message.relations).toEqual([
+    { $relation: { id: 0, oid: 16384, version: 1 } },
+  ]);
+
+  // relations are restored by reference, with their type parsers
+  const relations = deserialized.map((x) =>
+    "message" in x && "relation" in x.message ? x.message.relation : undefined,
+  );
+  expect(relations[0]).toBe(relations[1]);
+  expect(relations[0]?.columns[1]?.parser("2024-01-01 00:00:00+00")).toEqual(
+    systemTime,
+  );
+});
+
+test("inlines each version of a relation", () => {
+  const altered = {
+    ...users,
+    version: 2,
+    columns: users.columns.slice(0, 1),
+  };
+  const { serialized, deserialized } = roundTrip([
+    wal({ tag: "insert", relation: users, new: { id: 1n } }),
+    wal(altered),
+    wal({ tag: "insert", relation: altered, new: { id: 2n } }),
+  ]);
+
+  expect(serialized[2].message.relation).toEqual({
+    $relation: { id: 1, oid: 16384, version: 2 },
+  });
+  expect(deserialized[2]).toEqual(
+    wal({ tag: "insert", relation: altered, new: { id: 2n } }),
+  );
+});
+
+test("distinguishes relations with the same OID and version", () => {
+  const snapshot = { ...users, replicaIdentity: "full" as const };
+  const { serialized, deserialized } = roundTrip([
+    wal({ tag: "insert", relation: users, new: { id: 1n } }),
+    {
+      type: "snapshot",
+      lsn: "0/10",
+      message: { tag: "read", relation: snapshot, new: { id: 2n } },
+    },
+    wal({ tag: "insert", relation: users, new: { id: 3n } }),
+  ]);
+
+  expect(serialized[1].message.relation).toMatchObject({ $id: 1 });
+  expect(deserialized[1]).toHaveProperty(
+    ["message", "relation", "replicaIdentity"],
+    "full",
+  );
+  expect(deserialized[2]).toEqual(
+    wal({ tag: "insert", relation: users, new: { id: 3n } }),
+  );
+});
+
+test("inlines relations in each message with inlineRelations", () => {
+  const serializer = new MessageSerializer({ inlineRelations: true });
+  serializer.serialize(
+    wal({ tag: "insert", relation: users, new: { id: 1n } }),
+  );
+  const serialized = serializer.serialize(
+    wal({ tag: "insert", relation: users, new: { id: 2n } }),
+  );
+
+  expect(new MessageDeserializer().deserialize(serialized)).toEqual(
+    wal({ tag: "insert", relation: users, new: { id: 2n } }),
+  );
+});
+
+test("errors on references to unknown relations", () => {
+  const serializer = new MessageSerializer();
+  serializer.serialize(
+    wal({ tag: "insert", relation: users, new: { id: 1n } }),
+  );
+  const serialized = serializer.serialize(
+    wal({ tag: "insert", relation: users, new: { id: 2n } }),
+  );
+
+  expect(() => new MessageDeserializer().deserialize(serialized)).toThrow(
+    new PgOutputProtocolError("missing relation 16384 version 1"),
+  );
+});
+
+test("errors on unsupported versions", () => {
+  const serialized = {
+    v: 2,
+    type: "keepalive",
+  } as unknown as SerializedMessage;
+
+  expect(() => new MessageDeserializer().deserialize(serialized)).toThrow(
+    /unsupported serialized version 2/,
+  );
+});
+
+test("round trips transactions", async () => {
+  const changes = [
+    { tag: "insert" as const, relation: users, new: { id: 1n } },
+    { tag: "insert" as const, relation: users, new: { id: 2n } },
+  ];
+  const serialized = await new MessageSerializer().serializeTransaction({
+    xid: 750,
+    commitLsn: "0/10",
+    commitEndLsn: "0/20",
+    commitTime: systemTime,
+    origin: null,
+    changeCount: 2,
+    changes: (async function* () {
+      yield* changes;
+    })(),
+  });
+
+  const transaction = new MessageDeserializer().deserializeTransaction(
+    JSON.parse(JSON.stringify(serialized)),
+  );
+  expect(transaction).toEqual({
+    xid: 750,
+    commitLsn: "0/10",
+    commitEndLsn: "0/20",
+    commitTime: systemTime,
+    origin: null,
+    changeCount: 2,
+    changes: expect.anything(),
+  });
+  const decoded = [];
+  for await (const change of transaction.changes) {
+    decoded.push(change);
+  }
+  expect(decoded).toEqual(changes);
+});
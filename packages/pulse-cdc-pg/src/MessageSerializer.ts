@@ -0,0 +1,340 @@
+import pg from "pg";
+import type { BackfillMessage } from "./BackfillStream.js";
+import { PgOutputProtocolError } from "./errors.js";
+import type {
+  PgoutputMessages,
+  PgoutputRead,
+  PgoutputRelation,
+} from "./messages.js";
+import type { Transaction, TransactionChange } from "./TransactionStream.js";
+
+export type JsonValue =
+  | null
+  | boolean
+  | number
+  | string
+  | JsonValue[]
+  | { [key: string]: JsonValue };
+
+/** Version of the serialized shape, incremented on incompatible changes. */
+const FORMAT_VERSION = 1;
+
+export interface SerializedMessage {
+  /** Version of the serialized shape. */
+  v: typeof FORMAT_VERSION;
+  [key: string]: JsonValue;
+}
+
+export interface MessageSerializerInit {
+  /**
+   * Include the relation in each message referencing it, so that each message
+   * can be deserialized on its own, such as when messages are stored or
+   * retried individually. By default, a relation is only included in the first
+   * message referencing it.
+   *
+   * @default false
+   */
+  inlineRelations?: boolean;
+}
+
+export interface MessageDeserializerInit {
+  /**
+   * PostgreSQL type parsers restored on the columns of relations.
+   *
+   * @default pg.types
+   */
+  types?: pg.CustomTypesConfig;
+}
+
+/**
+ * Tags of encoded values. Plain objects with a single key that is one of these
+ * tags are wrapped in `$object` to keep them distinct from encoded values.
+ */
+const TAGS = new Set([
+  "$bigint",
+  "$bytes",
+  "$date",
+  "$number",
+  "$object",
+  "$relation",
+  "$undefined",
+]);
+
+function encodeValue(value: unknown): JsonValue {
+  if (value === undefined) {
+    return { $undefined: true };
+  }
+  if (
+    value === null ||
+    typeof value === "string" ||
+    typeof value === "boolean"
+  ) {
+    return value;
+  }
+  if (typeof value === "number") {
+    // NaN and infinite values are not valid JSON
+    return Number.isFinite(value) ? value : { $number: String(value) };
+  }
+  if (typeof value === "bigint") {
+    return { $bigint: value.toString() };
+  }
+  if (value instanceof Date) {
+    return { $date: value.toISOString() };
+  }
+  if (value instanceof Uint8Array) {
+    return { $bytes: Buffer.from(value).toString("base64") };
+  }
+  if (Array.isArray(value)) {
+    return value.map(encodeValue);
+  }
+  if (typeof value === "object") {
+    const entries = Object.entries(value);
+    const encoded = Object.fromEntries(
+      entries.map(([k, v]) => [k, encodeValue(v)]),
+    );
+    return entries.length === 1 && TAGS.has(entries[0]![0])
+      ? { $object: encoded }
+      : encoded;
+  }
+  throw new TypeError(`cannot serialize value of type ${typeof value}`);
+}
+
+function decodeValue(value: JsonValue): unknown {
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(decodeValue);
+  }
+
+  const entries = Object.entries(value);
+  const decodeEntries = (x: { [key: string]: JsonValue }) =>
+    Object.fromEntries(Object.entries(x).map(([k, v]) => [k, decodeValue(v)]));
+
+  if (entries.length !== 1) {
+    return decodeEntries(value);
+  }
+  const [tag, inner] = entries[0]!;
+  switch (tag) {
+    case "$bigint":
+      return BigInt(inner as string);
+    case "$bytes":
+      return new Uint8Array(Buffer.from(inner as string, "base64"));
+    case "$date":
+      return new Date(inner as string);
+    case "$number":
+      return Number(inner);
+    case "$object":
+      return decodeEntries(inner as { [key: string]: JsonValue });
+    case "$undefined":
+      return undefined;
+    default:
+      return decodeEntries(value);
+  }
+}
+
+/**
+ * Serializes messages emitted by `PgOutputDecoderStream` or `BackfillStream`
+ * into a stable, versioned JSON shape, which is restored by
+ * `MessageDeserializer`.
+ *
+ * Dates, bytes, bigints and non-finite numbers are encoded as tagged values
+ * such as `{ "$date": "2024-01-01T00:00:00.000Z" }`. Row changes reference
+ * their relation by an ID assigned by this serializer instead of including it,
+ * except for the first reference to each relation, so a sequence of serialized
+ * messages can always be deserialized from its start. With `inlineRelations`,
+ * each message includes its relations and can be deserialized on its own.
+ */
+export class MessageSerializer {
+  /** IDs of the relations serialized so far. */
+  readonly #ids = new WeakMap<PgoutputRelation, number>();
+  readonly #inlineRelations: boolean;
+  #nextId = 0;
+
+  constructor(init: MessageSerializerInit = {}) {
+    this.#inlineRelations = init.inlineRelations ?? false;
+  }
+
+  serialize(message: BackfillMessage): SerializedMessage {
+    const { type, ...envelope } = message;
+    const encoded = Object.fromEntries(
+      Object.entries(envelope).map(([k, v]) => [
+        k,
+        k === "message" ? this.#encodeMessage(v) : encodeValue(v),
+      ]),
+    );
+    return { v: FORMAT_VERSION, type, ...encoded };
+  }
+
+  /**
+   * Serializes a transaction emitted by `TransactionStream` with its changes,
+   * which are iterated to completion.
+   */
+  async serializeTransaction(
+    transaction: Transaction,
+  ): Promise<SerializedMessage> {
+    const { changes, ...rest } = transaction;
+    const encoded: JsonValue[] = [];
+    for await (const change of changes) {
+      encoded.push(this.#encodeMessage(change));
+    }
+    return {
+      v: FORMAT_VERSION,
+      type: "transaction",
+      ...(encodeValue(rest) as { [key: string]: JsonValue }),
+      changes: encoded,
+    };
+  }
+
+  #encodeMessage(message: PgoutputMessages | PgoutputRead): JsonValue {
+    if (message.tag === "relation") {
+      return this.#encodeRelation(message, { inline: true });
+    }
+    return Object.fromEntries(
+      Object.entries(message).map(([k, v]) => {
+        if (k === "relation") {
+          return [k, this.#encodeRelation(v as PgoutputRelation)];
+        }
+        if (k === "relations") {
+          return [
+            k,
+            (v as PgoutputRelation[]).map((x) => this.#encodeRelation(x)),
+          ];
+        }
+        return [k, encodeValue(v)];
+      }),
+    );
+  }
+
+  #encodeRelation(
+    relation: PgoutputRelation,
+    { inline = false } = {},
+  ): JsonValue {
+    // relations are identified by object, since relations with the same OID
+    // and version may differ, such as the relations of a snapshot
+    let id = this.#ids.get(relation);
+    if (id !== undefined && !inline && !this.#inlineRelations) {
+      const { oid, version } = relation;
+      return { $relation: { id, oid, version } };
+    }
+    if (id === undefined) {
+      id = this.#nextId++;
+      this.#ids.set(relation, id);
+    }
+
+    const { columns, ...rest } = relation;
+    return {
+      $id: id,
+      ...(encodeValue(rest) as { [key: string]: JsonValue }),
+      // type parsers are restored by the deserializer
+      columns: columns.map(
+        ({ name, flags, typeOid, typeMod, typeSchema, typeName }) => ({
+          name,
+          flags,
+          typeOid,
+          typeMod,
+          typeSchema,
+          typeName,
+        }),
+      ),
+    };
+  }
+}
+
+/**
+ * Deserializes messages serialized by `MessageSerializer`, in the order they
+ * were serialized. Relations are restored with the type parsers of `types`.
+ */
+export class MessageDeserializer {
+  /** Deserialized relations keyed on the ID assigned by the serializer. */
+  readonly #relations = new Map<number, PgoutputRelation>();
+  readonly #types: pg.CustomTypesConfig;
+
+  constructor(init: MessageDeserializerInit = {}) {
+    this.#types = init.types ?? pg.types;
+  }
+
+  deserialize(serialized: SerializedMessage): BackfillMessage {
+    const { v, type, message, ...envelope } = serialized;
+    if (v !== FORMAT_VERSION) {
+      throw new PgOutputProtocolError(`unsupported serialized version ${v}`);
+    }
+    return {
+      type,
+      ...(decodeValue(envelope) as object),
+      ...(message !== undefined && {
+        message: this.#decodeMessage(message as { [key: string]: JsonValue }),
+      }),
+    } as BackfillMessage;
+  }
+
+  /** Deserializes a transaction serialized by `serializeTransaction()`. */
+  deserializeTransaction(serialized: SerializedMessage): Transaction {
+    const { v, type, changes, ...rest } = serialized;
+    if (v !== FORMAT_VERSION) {
+      throw new PgOutputProtocolError(`unsupported serialized version ${v}`);
+    }
+    if (type !== "transaction") {
+      throw new PgOutputProtocolError(`unexpected serialized type ${type}`);
+    }
+    const decoded = (changes as { [key: string]: JsonValue }[]).map(
+      (x) => this.#decodeMessage(x) as TransactionChange,
+    );
+    return {
+      ...(decodeValue(rest) as Omit<Transaction, "changes">),
+      changes: (async function* () {
+        yield* decoded;
+      })(),
+    };
+  }
+
+  #decodeMessage(message: { [key: string]: JsonValue }): unknown {
+    if (message["tag"] === "relation") {
+      return this.#decodeRelation(message);
+    }
+    return Object.fromEntries(
+      Object.entries(message).map(([k, v]) => {
+        if (k === "relation") {
+          return [k, this.#getRelation(v as { [key: string]: JsonValue })];
+        }
+        if (k === "relations") {
+          return [
+            k,
+            (v as { [key: string]: JsonValue }[]).map((x) =>
+              this.#getRelation(x),
+            ),
+          ];
+        }
+        return [k, decodeValue(v)];
+      }),
+    );
+  }
+
+  #decodeRelation({ $id, ...message }: { [key: string]: JsonValue }) {
+    const relation = decodeValue(message) as PgoutputRelation;
+    relation.columns = relation.columns.map((column) => ({
+      ...column,
+      parser: this.#types.getTypeParser(column.typeOid),
+    }));
+    this.#relations.set($id as number, relation);
+    return relation;
+  }
+
+  #getRelation(value: { [key: string]: JsonValue }) {
+    if (value["tag"] === "relation") {
+      return this.#decodeRelation(value);
+    }
+    const { id, oid, version } = value["$relation"] as {
+      id: number;
+      oid: number;
+      version: number;
+    };
+    const relation = this.#relations.get(id);
+    if (!relation) {
+      throw new PgOutputProtocolError(
+        `missing relation ${oid} version ${version}`,
+      );
+    }
+    return relation;
+  }
+}
@@ -0,0 +1,140 @@
+import { expect, test } from "vitest";
+import type { PgoutputMessages } from "./messages.js";
+import {
+  OriginFilterStream,
+  type OriginFilterStreamInit,
+} from "./OriginFilterStream.js";
+import { relation, systemTime, wal } from "../test/test-utils.js";
+
+const users = relation("users");
+
+function transaction(xid: number, origin?: string): PgoutputMessages[] {
+  return [
+    { tag: "begin", commitLsn: "0/20", commitTime: systemTime, xid },
+    ...(origin
+      ? [{ tag: "origin" as const, originLsn: "0/5", originName: origin }]
+      : []),
+    {
+      tag: "insert",
+      ...(origin ? { origin } : {}),
+      relation: users,
+      new: { id: xid },
+    },
+    {
+      tag: "commit",
+      flags: 0,
+      commitLsn: "0/20",
+      commitEndLsn: "0/30",
+      commitTime: systemTime,
+    },
+  ];
+}
+
+async function filter(
+  init: OriginFilterStreamInit,
+  messages: PgoutputMessages[],
+) {
+  const stream = new OriginFilterStream(init);
+  const writer = stream.writable.getWriter();
+  const output: PgoutputMessages[] = [];
+  const reading = (async () => {
+    for await (const x of stream.readable) {
+      if (x.type === "waldata") {
+        output.push(x.message);
+      }
+    }
+  })();
+  for (const message of messages) {
+    await writer.write(wal(message));
+  }
+  await writer.close();
+  await reading;
+  return output;
+}
+
+test("drops transactions from the chosen origins", async () => {
+  const output = await filter({ origins: ["us-east"] }, [
+    users,
+    ...transaction(1),
+    ...transaction(2, "us-east"),
+    ...transaction(3, "eu-west"),
+  ]);
+
+  expect(output).toEqual([
+    users,
+    ...transaction(1),
+    ...transaction(3, "eu-west"),
+  ]);
+});
+
+test("drops transactions from any origin by default", async () => {
+  const output = await filter({}, [
+    ...transaction(1, "us-east"),
+    ...transaction(2),
+    ...transaction(3, "eu-west"),
+  ]);
+
+  expect(output).toEqual(transaction(2));
+});
+
+test("drops prepared transactions from the chosen origins", async () => {
+  const prepared = (gid: string) => ({
+    prepareLsn: "0/20",
+    prepareEndLsn: "0/30",
+    prepareTime: systemTime,
+    xid: 1,
+    gid,
+  });
+  const committed = (gid: string): PgoutputMessages => ({
+    tag: "commit_prepared",
+    flags: 0,
+    commitLsn: "0/20",
+    commitEndLsn: "0/30",
+    commitTime: systemTime,
+    xid: 1,
+    gid,
+  });
+
+  const output = await filter({ origins: ["us-east"] }, [
+    { tag: "begin_prepare", ...prepared("a") },
+    { tag: "origin", originLsn: "0/5", originName: "us-east" },
+    { tag: "insert", origin: "us-east", relation: users, new: { id: 1 } },
+    { tag: "prepare", flags: 0, ...prepared("a") },
+    { tag: "begin_prepare", ...prepared("b") },
+    { tag: "insert", relation: users, new: { id: 2 } },
+    { tag: "prepare", flags: 0, ...prepared("b") },
+    committed("a"),
+    committed("b"),
+  ]);
+
+  expect(output.map((x) => x.tag)).toEqual([
+    "begin_prepare",
+    "insert",
+    "prepare",
+    "commit_prepared",
+  ]);
+  expect(output.at(-1)).toEqual(committed("b"));
+});
+
+test("drops changes of streamed transactions by origin", async () => {
+  const output = await filter({ origins: ["us-east"] }, [
+    { tag: "stream_start", xid: 7, firstSegment: true },
+    { tag: "origin", originLsn: "0/5", originName: "us-east" },
+    {
+      tag: "insert",
+      xid: 7,
+      origin: "us-east",
+      relation: users,
+      new: { id: 1 },
+    },
+    { tag: "insert", xid: 8, relation: users, new: { id: 2 } },
+    { tag: "stream_stop" },
+  ]);
+
+  expect(output.map((x) => x.tag)).toEqual([
+    "stream_start",
+    "insert",
+    "stream_stop",
+  ]);
+  expect(output[1]).toHaveProperty("xid", 8);
+});
@@ -0,0 +1,114 @@
+import type { BackfillMessage } from "./BackfillStream.js";
+
+export interface OriginFilterStreamInit {
+  /**
+   * Names of the replication origins whose changes are dropped. Defaults to
+   * all origins, which only keeps changes without an origin like the `origin`
+   * option of `LogicalReplicationStream` on servers older than PG16.
+   */
+  origins?: string[];
+}
+
+type WalData = Extract<BackfillMessage, { type: "waldata" }>;
+
+/**
+ * Implementation of `TransformStream` that drops the changes of transactions
+ * from replication origins, such as the changes applied by the other side of
+ * bidirectional replication, which would otherwise be replicated back.
+ *
+ * The begin message of a transaction is held back until the next message, as
+ * the origin message directly follows it. Transactions from dropped origins
+ * are dropped entirely, including the commit prepared or rollback prepared
+ * messages of prepared transactions. Only the changes and origin messages of
+ * streamed transactions are dropped, since the origin is not known until the
+ * first segment. Relation and type messages are always passed through, as the
+ * server only sends them once.
+ *
+ * @example
+ * ```ts
+ * const filtered = messages.pipeThrough(
+ *   new OriginFilterStream({ origins: ["us-east"] }),
+ * );
+ * ```
+ */
+export class OriginFilterStream extends TransformStream<
+  BackfillMessage,
+  BackfillMessage
+> {
+  constructor(init: OriginFilterStreamInit = {}) {
+    const origins = init.origins ? new Set(init.origins) : null;
+    const isDropped = (origin: string | undefined) =>
+      origin !== undefined && (!origins || origins.has(origin));
+
+    /** The begin message held back until the origin is known. */
+    let pending: WalData | null = null;
+    /** Whether the messages of the current transaction are dropped. */
+    let dropping = false;
+    /** GIDs of dropped prepared transactions. */
+    const droppedGids = new Set<string>();
+
+    super({
+      transform(wal, controller) {
+        if (wal.type !== "waldata") {
+          controller.enqueue(wal);
+          return;
+        }
+
+        const { message } = wal;
+        if (pending) {
+          const begin = pending;
+          pending = null;
+          if (message.tag === "origin" && isDropped(message.originName)) {
+            dropping = true;
+            if (begin.message.tag === "begin_prepare") {
+              droppedGids.add(begin.message.gid);
+            }
+            return;
+          }
+          controller.enqueue(begin);
+        }
+
+        switch (message.tag) {
+          case "begin":
+          case "begin_prepare":
+            pending = wal;
+            return;
+          case "commit":
+          case "prepare":
+            if (dropping) {
+              dropping = false;
+              return;
+            }
+            break;
+          case "commit_prepared":
+          case "rollback_prepared":
+            if (droppedGids.delete(message.gid)) {
+              return;
+            }
+            break;
+          case "origin":
+            // origins of streamed transactions
+            if (isDropped(message.originName)) {
+              return;
+            }
+            break;
+          case "delete":
+          case "insert":
+          case "message":
+          case "truncate":
+          case "update":
+            if (dropping || isDropped(message.origin)) {
+              return;
+            }
+            break;
+        }
+        controller.enqueue(wal);
+      },
+      flush(controller) {
+        if (pending) {
+          controller.enqueue(pending);
+        }
+      },
+    });
+  }
+}
@@ -0,0 +1,187 @@
+import type { ClientBase } from "pg";
+import { expect, test, vi } from "vitest";
+import type { BackfillMessage } from "./BackfillStream.js";
+import type { LsnLike } from "./Lsn.js";
+import { Outbox, OutboxRelay, type OutboxEnvelope } from "./Outbox.js";
+import { relation, systemTime, wal } from "../test/test-utils.js";
+
+function insert(id: number, lsn: string, table = "pulse_outbox") {
+  return {
+    ...wal(
+      {
+        tag: "insert",
+        relation: relation(table),
+        new: {
+          id: String(id),
+          aggregate_type: "order",
+          aggregate_id: "42",
+          type: "order.created",
+          payload: { total: id * 100 },
+          headers: { traceparent: "00-1" },
+          created_at: systemTime,
+        },
+      },
+      lsn,
+    ),
+    // the server position is past the insert
+    currentLsn: "0/1000",
+  } satisfies BackfillMessage;
+}
+
+function begin(lsn: string): BackfillMessage {
+  return wal(
+    { tag: "begin", commitLsn: lsn, commitTime: systemTime, xid: 7 },
+    lsn,
+  );
+}
+
+function commit(lsn: string, commitEndLsn: string): BackfillMessage {
+  return wal(
+    {
+      tag: "commit",
+      flags: 0,
+      commitLsn: lsn,
+      commitEndLsn,
+      commitTime: systemTime,
+    },
+    lsn,
+  );
+}
+
+function keepalive(lsn: string): BackfillMessage {
+  return {
+    type: "keepalive",
+    currentLsn: lsn,
+    systemTime,
+    shouldRespond: false,
+  };
+}
+
+function setup(cleanup = false) {
+  const query = vi.fn().mockResolvedValue({ rows: [] });
+  const outbox = new Outbox({ client: { query } as unknown as ClientBase });
+  const published: OutboxEnvelope[] = [];
+  const acknowledge = vi.fn<(lsn: LsnLike) => Promise<void>>();
+  const relay = new OutboxRelay({
+    cleanup,
+    outbox,
+    publisher: { publish: async (x) => void published.push(x) },
+    replication: { acknowledge },
+  });
+  return { acknowledge, published, query, relay };
+}
+
+async function write(relay: OutboxRelay, messages: BackfillMessage[]) {
+  const writer = relay.getWriter();
+  for (const message of messages) {
+    await writer.write(message);
+  }
+  await writer.close();
+}
+
+test("publishes inserts into the outbox in order", async () => {
+  const { acknowledge, published, query, relay } = setup();
+
+  await write(relay, [
+    begin("0/08"),
+    insert(1, "0/10"),
+    commit("0/18", "0/20"),
+    begin("0/20"),
+    insert(2, "0/20", "orders"),
+    insert(3, "0/30"),
+    commit("0/38", "0/40"),
+    keepalive("0/50"),
+  ]);
+
+  expect(published).toEqual([
+    {
+      id: "1",
+      aggregateType: "order",
+      aggregateId: "42",
+      type: "order.created",
+      payload: { total: 100 },
+      headers: { traceparent: "00-1" },
+      createdAt: systemTime,
+      lsn: "0/10",
+    },
+    expect.objectContaining({ id: "3", lsn: "0/30" }),
+  ]);
+  expect(acknowledge.mock.calls.map(([x]) => x)).toEqual([
+    "0/20",
+    "0/40",
+    "0/50",
+  ]);
+  expect(query).not.toHaveBeenCalled();
+});
+
+test("acknowledges transactions once all of their messages were published", async () => {
+  const { acknowledge, published, relay } = setup();
+  const writer = relay.getWriter();
+
+  await writer.write(begin("0/08"));
+  await writer.write(insert(1, "0/10"));
+  // keepalives within a transaction are not acknowledged
+  await writer.write(keepalive("0/50"));
+  expect(published).toHaveLength(1);
+  expect(acknowledge).not.toHaveBeenCalled();
+
+  await writer.write(insert(2, "0/20"));
+  await writer.write(commit("0/28", "0/30"));
+  await writer.close();
+  expect(published).toHaveLength(2);
+  expect(acknowledge.mock.calls.map(([x]) => x)).toEqual(["0/30"]);
+});
+
+test("deletes published rows", async () => {
+  const { query, relay } = setup(true);
+
+  await write(relay, [insert(1, "0/10")]);
+
+  expect(query).toHaveBeenCalledWith(
+    `DELETE FROM "public"."pulse_outbox" WHERE id = ANY($1::bigint[])`,
+    [["1"]],
+  );
+});
+
+test("does not acknowledge messages that failed to publish", async () => {
+  const acknowledge = vi.fn<(lsn: LsnLike) => Promise<void>>();
+  const relay = new OutboxRelay({
+    outbox: new Outbox({ client: {} as ClientBase }),
+    publisher: { publish: () => Promise.reject(new Error("unavailable")) },
+    replication: { acknowledge },
+  });
+
+  await expect(write(relay, [insert(1, "0/10")])).rejects.toThrow(
+    "unavailable",
+  );
+  expect(acknowledge).not.toHaveBeenCalled();
+});
+
+test("rejects streamed transactions", async () => {
+  const { relay } = setup();
+  const message = insert(1, "0/10");
+
+  await expect(
+    write(relay, [{ ...message, message: { ...message.message, xid: 7 } }]),
+  ).rejects.toThrow("OutboxRelay does not support streamed transactions");
+});
+
+test("rejects two-phase transactions", async () => {
+  const { acknowledge, published, relay } = setup();
+  const prepare = {
+    prepareLsn: "0/10",
+    prepareEndLsn: "0/20",
+    prepareTime: systemTime,
+    xid: 7,
+    gid: "a",
+  };
+
+  await expect(
+    write(relay, [
+      { ...insert(0, "0/08"), message: { tag: "begin_prepare", ...prepare } },
+      insert(1, "0/10"),
+    ]),
+  ).rejects.toThrow("OutboxRelay does not support two-phase transactions");
+  expect(published).toEqual([]);
+  expect(acknowledge).not.toHaveBeenCalled();
+});
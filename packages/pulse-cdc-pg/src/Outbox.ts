@@ -0,0 +1,257 @@
+import pg, { type ClientBase, type Pool } from "pg";
+import type { BackfillMessage } from "./BackfillStream.js";
+import type { LsnLike } from "./Lsn.js";
+import type { JsonValue } from "./MessageSerializer.js";
+
+export interface OutboxInit {
+  /**
+   * Client or pool used to create the table and to delete published rows.
+   * This must be a regular (non-replication) connection.
+   */
+  client: ClientBase | Pool;
+  /** @default "public" */
+  schema?: string;
+  /** @default "pulse_outbox" */
+  table?: string;
+}
+
+/** A message to add to the outbox. */
+export interface OutboxMessage<T = JsonValue> {
+  /** Type of the aggregate the message is about, such as `order`. */
+  aggregateType: string;
+  /** ID of the aggregate the message is about. */
+  aggregateId: string;
+  /** Type of the message, such as `order.created`. */
+  type: string;
+  payload: T;
+  headers?: Record<string, string>;
+}
+
+/** A message read from the outbox, as passed to the publisher. */
+export interface OutboxEnvelope<T = JsonValue>
+  extends Required<OutboxMessage<T>> {
+  /** ID of the outbox row, increasing in insert order. */
+  id: string;
+  createdAt: Date;
+  /**
+   * LSN of the insert. The commit of its transaction is acknowledged once all
+   * messages of the transaction were published.
+   */
+  lsn: string;
+}
+
+export interface OutboxPublisher<T = JsonValue> {
+  /**
+   * Publishes a message, such as to a message broker. The next message is not
+   * published until the returned promise resolves, and a rejection errors the
+   * relay. A message may be published more than once, so consumers should
+   * deduplicate messages on `id`.
+   */
+  publish(envelope: OutboxEnvelope<T>): Promise<void>;
+}
+
+export interface OutboxRelayInit<T = JsonValue> {
+  outbox: Outbox;
+  publisher: OutboxPublisher<T>;
+  /**
+   * Whether rows are deleted from the outbox once published. Deleting rows
+   * writes to the WAL again, so rows can also be deleted in the transaction
+   * that inserts them, or periodically.
+   *
+   * @default false
+   */
+  cleanup?: boolean;
+  /**
+   * Stream whose `acknowledge()` is called with the end LSN of each commit
+   * once the messages of the transaction were published, and with the LSN of
+   * keepalives outside of transactions.
+   */
+  replication?: { acknowledge(lsn: LsnLike): Promise<void> };
+}
+
+/**
+ * A table for the transactional outbox pattern. Messages are added to the
+ * outbox in the same transaction as the business writes, then published from
+ * the replication stream by `OutboxRelay`, so that a message is published if
+ * and only if the transaction commits.
+ *
+ * The table can be created with `createTable()` or with the SQL returned by
+ * `createTableSql()` in a migration, and must be added to the publication.
+ */
+export class Outbox {
+  /** The schema of the table. */
+  readonly schema: string;
+  /** The name of the table. */
+  readonly table: string;
+
+  readonly #client: ClientBase | Pool;
+  readonly #qualifiedName: string;
+
+  constructor(init: OutboxInit) {
+    const { client, schema = "public", table = "pulse_outbox" } = init;
+    this.schema = schema;
+    this.table = table;
+    this.#client = client;
+    this.#qualifiedName = `${pg.escapeIdentifier(schema)}.${pg.escapeIdentifier(table)}`;
+  }
+
+  /** Returns the SQL that creates the outbox table if it does not exist. */
+  createTableSql() {
+    return `CREATE TABLE IF NOT EXISTS ${this.#qualifiedName} (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  aggregate_type text NOT NULL,
+  aggregate_id text NOT NULL,
+  type text NOT NULL,
+  payload jsonb NOT NULL,
+  headers jsonb NOT NULL DEFAULT '{}',
+  created_at timestamptz NOT NULL DEFAULT now()
+)`;
+  }
+
+  /** Creates the outbox table if it does not exist. */
+  async createTable() {
+    await this.#client.query(this.createTableSql());
+  }
+
+  /**
+   * Adds a message to the outbox and returns its ID.
+   *
+   * @param client Client to add the message with, which should be the client
+   * of the transaction making the business writes. Defaults to the client of
+   * the outbox.
+   */
+  async add<T>(
+    message: OutboxMessage<T>,
+    client: ClientBase | Pool = this.#client,
+  ): Promise<string> {
+    const { aggregateType, aggregateId, type, payload, headers = {} } = message;
+    const result = await client.query<{ id: string }>(
+      `INSERT INTO ${this.#qualifiedName}
+      (aggregate_type, aggregate_id, type, payload, headers)
+      VALUES ($1, $2, $3, $4, $5) RETURNING id::text`,
+      [
+        aggregateType,
+        aggregateId,
+        type,
+        JSON.stringify(payload),
+        JSON.stringify(headers),
+      ],
+    );
+    return result.rows[0]!.id;
+  }
+
+  /** Deletes messages from the outbox. */
+  async delete(ids: string[]) {
+    await this.#client.query(
+      `DELETE FROM ${this.#qualifiedName} WHERE id = ANY($1::bigint[])`,
+      [ids],
+    );
+  }
+}
+
+function toEnvelope<T>(row: Record<string, unknown>, lsn: string) {
+  return {
+    id: String(row["id"]),
+    aggregateType: row["aggregate_type"],
+    aggregateId: row["aggregate_id"],
+    type: row["type"],
+    payload: row["payload"],
+    headers: row["headers"],
+    createdAt: new Date(row["created_at"] as Date | string),
+    lsn,
+  } as OutboxEnvelope<T>;
+}
+
+/**
+ * Implementation of `WritableStream` that publishes the messages added to an
+ * `Outbox`. Accepts the messages emitted by `PgOutputDecoderStream` or
+ * `BackfillStream`, and ignores changes other than inserts into the outbox,
+ * including the rows of a snapshot.
+ *
+ * Messages are published one at a time in commit order. With `replication`,
+ * the commit of a transaction is only acknowledged once all of its messages
+ * were published, so that messages are published at least once: messages of
+ * transactions that were not acknowledged are streamed and published again
+ * after a restart. Keepalives are acknowledged while no transaction is open.
+ *
+ * Changes of in-progress and prepared transactions are not supported, since
+ * they may still be rolled back, so the `streaming` and `twoPhase` options of
+ * `LogicalReplicationStream` must be disabled.
+ *
+ * @example
+ * ```ts
+ * const outbox = new Outbox({ client: pool });
+ * await replication.pipeThrough(new PgOutputDecoderStream()).pipeTo(
+ *   new OutboxRelay({ outbox, publisher, replication }),
+ * );
+ * ```
+ */
+export class OutboxRelay<
+  T = JsonValue,
+> extends WritableStream<BackfillMessage> {
+  constructor(init: OutboxRelayInit<T>) {
+    const { cleanup = false, outbox, publisher, replication } = init;
+    /** Whether a transaction was begun without its commit. */
+    let inTransaction = false;
+    /** Whether the open transaction is a two-phase transaction. */
+    let twoPhase = false;
+
+    super({
+      async write(wal) {
+        if (wal.type === "keepalive") {
+          // the LSN of a keepalive within a transaction may be past messages
+          // that are not published yet
+          if (!inTransaction) {
+            await replication?.acknowledge(wal.currentLsn);
+          }
+          return;
+        }
+        // snapshot rows are read, not inserted, so they are ignored as well
+        if (wal.type !== "waldata") {
+          return;
+        }
+        const { message } = wal;
+        if (message.tag === "begin" || message.tag === "begin_prepare") {
+          inTransaction = true;
+          twoPhase = message.tag === "begin_prepare";
+          return;
+        }
+        if (message.tag === "commit" || message.tag === "prepare") {
+          inTransaction = false;
+          const lsn =
+            message.tag === "commit"
+              ? message.commitEndLsn
+              : message.prepareEndLsn;
+          if (lsn !== null) {
+            await replication?.acknowledge(lsn);
+          }
+          return;
+        }
+        if (
+          message.tag !== "insert" ||
+          message.relation.schema !== outbox.schema ||
+          message.relation.name !== outbox.table
+        ) {
+          return;
+        }
+        if (message.xid !== undefined) {
+          throw new TypeError(
+            "OutboxRelay does not support streamed transactions",
+          );
+        }
+        // the messages would be published before the transaction commits
+        if (twoPhase) {
+          throw new TypeError(
+            "OutboxRelay does not support two-phase transactions",
+          );
+        }
+
+        const envelope = toEnvelope<T>(message.new, wal.messageLsn);
+        await publisher.publish(envelope);
+        if (cleanup) {
+          await outbox.delete([envelope.id]);
+        }
+      },
+    });
+  }
+}
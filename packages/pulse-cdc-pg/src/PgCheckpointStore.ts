@@ -0,0 +1,81 @@
+import pg, { type ClientBase, type Pool } from "pg";
+import type { CheckpointStore } from "./CheckpointStore.js";
+import { Lsn, type LsnLike } from "./Lsn.js";
+
+export interface PgCheckpointStoreInit {
+  /**
+   * Client or pool used to load and save checkpoints when no client is passed
+   * to `save()`. This must be a regular (non-replication) connection.
+   */
+  client: ClientBase | Pool;
+  /** Key of the checkpoint, typically the name of the replication slot. */
+  slotName: string;
+  /** @default "public" */
+  schema?: string;
+  /** @default "pulse_checkpoints" */
+  table?: string;
+}
+
+/**
+ * Implementation of `CheckpointStore` that saves checkpoints to a PostgreSQL
+ * table, with one row per replication slot. The table can be created with
+ * `createTable()`.
+ *
+ * The checkpoint can be saved in the same transaction as the writes of a sink
+ * by passing the transaction's client to `save()`, so that the changes and the
+ * checkpoint are committed or rolled back together. A saved checkpoint never
+ * moves backward.
+ */
+export class PgCheckpointStore implements CheckpointStore {
+  readonly #client: ClientBase | Pool;
+  readonly #slotName: string;
+  readonly #table: string;
+
+  constructor(init: PgCheckpointStoreInit) {
+    const {
+      client,
+      slotName,
+      schema = "public",
+      table = "pulse_checkpoints",
+    } = init;
+    this.#client = client;
+    this.#slotName = slotName;
+    this.#table = `${pg.escapeIdentifier(schema)}.${pg.escapeIdentifier(table)}`;
+  }
+
+  /** Creates the checkpoint table if it does not exist. */
+  async createTable() {
+    await this.#client.query(
+      `CREATE TABLE IF NOT EXISTS ${this.#table} (
+        slot_name text PRIMARY KEY,
+        lsn pg_lsn NOT NULL,
+        updated_at timestamptz NOT NULL DEFAULT now()
+      )`,
+    );
+  }
+
+  async load() {
+    const result = await this.#client.query<{ lsn: string }>(
+      `SELECT lsn::text FROM ${this.#table} WHERE slot_name = $1`,
+      [this.#slotName],
+    );
+    const row = result.rows.at(0);
+    return row ? Lsn.parse(row.lsn) : null;
+  }
+
+  /**
+   * Saves the checkpoint.
+   *
+   * @param client Client to save the checkpoint with, such as a client with
+   * an open transaction. Defaults to the client of the store.
+   */
+  async save(lsn: LsnLike, client: ClientBase | Pool = this.#client) {
+    await client.query(
+      `INSERT INTO ${this.#table} AS t (slot_name, lsn) VALUES ($1, $2)
+      ON CONFLICT (slot_name) DO UPDATE
+      SET lsn = excluded.lsn, updated_at = now()
+      WHERE t.lsn < excluded.lsn`,
+      [this.#slotName, Lsn.from(lsn).toString()],
+    );
+  }
+}
@@ -0,0 +1,444 @@
+import { describe, expect, test } from "vitest";
+import { PgoutputDecoder } from "./PgoutputDecoder.js";
+
+const encoder = new TextEncoder();
+
+function int8(value: number) {
+  return [value & 0xff];
+}
+
+function int16(value: number) {
+  return [(value >> 8) & 0xff, value & 0xff];
+}
+
+function int32(value: number) {
+  return [
+    (value >> 24) & 0xff,
+    (value >> 16) & 0xff,
+    (value >> 8) & 0xff,
+    value & 0xff,
+  ];
+}
+
+function int64(value: bigint) {
+  return [
+    ...int32(Number(value >> 32n)),
+    ...int32(Number(value & 0xffffffffn)),
+  ];
+}
+
+function string(value: string) {
+  return [...encoder.encode(value), 0x00];
+}
+
+function char(value: string) {
+  return value.charCodeAt(0);
+}
+
+/** 2024-01-01T00:00:00Z as microseconds since the PostgreSQL epoch. */
+const TIME = 757382400000000n;
+
+const RELATION = [
+  char("R"),
+  ...int32(16384),
+  ...string("public"),
+  ...string("users"),
+  char("d"),
+  ...int16(2),
+  ...int8(1),
+  ...string("id"),
+  ...int32(23),
+  ...int32(-1),
+  ...int8(0),
+  ...string("name"),
+  ...int32(25),
+  ...int32(-1),
+];
+
+function textTuple(...values: string[]) {
+  return [
+    ...int16(values.length),
+    ...values.flatMap((value) => {
+      const bytes = encoder.encode(value);
+      return [char("t"), ...int32(bytes.length), ...bytes];
+    }),
+  ];
+}
+
+describe("streaming (protocol version 2)", () => {
+  test("decodes stream control messages", () => {
+    const decoder = new PgoutputDecoder();
+
+    expect(
+      decoder.decode(new Uint8Array([char("S"), ...int32(750), ...int8(1)])),
+    ).toEqual({ tag: "stream_start", xid: 750, firstSegment: true });
+
+    expect(decoder.decode(new Uint8Array([char("E")]))).toEqual({
+      tag: "stream_stop",
+    });
+
+    expect(
+      decoder.decode(
+        new Uint8Array([
+          char("c"),
+          ...int32(750),
+          ...int8(0),
+          ...int64(0x1_0000_00a0n),
+          ...int64(0x1_0000_00b0n),
+          ...int64(TIME),
+        ]),
+      ),
+    ).toEqual({
+      tag: "stream_commit",
+      xid: 750,
+      flags: 0,
+      commitLsn: "1/A0",
+      commitEndLsn: "1/B0",
+      commitTime: new Date("2024-01-01T00:00:00Z"),
+    });
+
+    expect(
+      decoder.decode(new Uint8Array([char("A"), ...int32(750), ...int32(751)])),
+    ).toEqual({ tag: "stream_abort", xid: 750, subXid: 751 });
+  });
+
+  test("reads the transaction ID prefix only within a stream", () => {
+    const decoder = new PgoutputDecoder();
+
+    decoder.decode(new Uint8Array([char("S"), ...int32(750), ...int8(1)]));
+
+    const [tag, ...relation] = RELATION;
+    expect(
+      decoder.decode(new Uint8Array([tag!, ...int32(750), ...relation])),
+    ).toMatchObject({ tag: "relation", xid: 750, name: "users" });
+
+    expect(
+      decoder.decode(
+        new Uint8Array([
+          char("I"),
+          ...int32(750),
+          ...int32(16384),
+          char("N"),
+          ...textTuple("1", "alice"),
+        ]),
+      ),
+    ).toMatchObject({ tag: "insert", xid: 750, new: { id: 1, name: "alice" } });
+
+    decoder.decode(new Uint8Array([char("E")]));
+
+    const inserted = decoder.decode(
+      new Uint8Array([
+        char("I"),
+        ...int32(16384),
+        char("N"),
+        ...textTuple("2", "bob"),
+      ]),
+    );
+    expect(inserted).toMatchObject({
+      tag: "insert",
+      new: { id: 2, name: "bob" },
+    });
+    expect(inserted).not.toHaveProperty("xid");
+  });
+});
+
+describe("replication origins", () => {
+  const origin = (name: string) =>
+    new Uint8Array([char("O"), ...int64(5n), ...string(name)]);
+  const insert = (...prefix: number[]) =>
+    new Uint8Array([
+      char("I"),
+      ...prefix,
+      ...int32(16384),
+      char("N"),
+      ...textTuple("1", "alice"),
+    ]);
+
+  test("tags changes with the origin of their transaction", () => {
+    const decoder = new PgoutputDecoder();
+    decoder.decode(new Uint8Array(RELATION));
+
+    const begin = new Uint8Array([
+      char("B"),
+      ...int64(0xa0n),
+      ...int64(TIME),
+      ...int32(750),
+    ]);
+    const commit = new Uint8Array([
+      char("C"),
+      ...int8(0),
+      ...int64(0xa0n),
+      ...int64(0xb0n),
+      ...int64(TIME),
+    ]);
+
+    decoder.decode(begin);
+    expect(decoder.decode(origin("us-east"))).toEqual({
+      tag: "origin",
+      originLsn: "0/5",
+      originName: "us-east",
+    });
+    expect(decoder.decode(insert())).toMatchObject({
+      tag: "insert",
+      origin: "us-east",
+    });
+    decoder.decode(commit);
+
+    decoder.decode(begin);
+    expect(decoder.decode(insert())).not.toHaveProperty("origin");
+  });
+
+  test("tags changes of streamed transactions across segments", () => {
+    const decoder = new PgoutputDecoder();
+    decoder.decode(new Uint8Array(RELATION));
+    const start = (xid: number, first: number) =>
+      new Uint8Array([char("S"), ...int32(xid), ...int8(first)]);
+    const stop = new Uint8Array([char("E")]);
+
+    decoder.decode(start(750, 1));
+    decoder.decode(origin("us-east"));
+    decoder.decode(stop);
+    decoder.decode(start(751, 1));
+    expect(decoder.decode(insert(...int32(751)))).not.toHaveProperty("origin");
+    decoder.decode(stop);
+    decoder.decode(start(750, 0));
+    expect(decoder.decode(insert(...int32(750)))).toMatchObject({
+      xid: 750,
+      origin: "us-east",
+    });
+    decoder.decode(stop);
+
+    decoder.decode(new Uint8Array([char("A"), ...int32(750), ...int32(750)]));
+    decoder.decode(start(750, 1));
+    expect(decoder.decode(insert(...int32(750)))).not.toHaveProperty("origin");
+  });
+});
+
+describe("two-phase commit (protocol version 3)", () => {
+  const prepared = [
+    ...int64(0x1_0000_00a0n),
+    ...int64(0x1_0000_00b0n),
+    ...int64(TIME),
+    ...int32(750),
+    ...string("tx-1"),
+  ];
+
+  test("decodes begin prepare", () => {
+    const decoder = new PgoutputDecoder();
+    expect(decoder.decode(new Uint8Array([char("b"), ...prepared]))).toEqual({
+      tag: "begin_prepare",
+      prepareLsn: "1/A0",
+      prepareEndLsn: "1/B0",
+      prepareTime: new Date("2024-01-01T00:00:00Z"),
+      xid: 750,
+      gid: "tx-1",
+    });
+  });
+
+  test.each([
+    ["P", "prepare"],
+    ["p", "stream_prepare"],
+  ])("decodes %s as %s", (tag, expected) => {
+    const decoder = new PgoutputDecoder();
+    expect(
+      decoder.decode(new Uint8Array([char(tag), ...int8(0), ...prepared])),
+    ).toEqual({
+      tag: expected,
+      flags: 0,
+      prepareLsn: "1/A0",
+      prepareEndLsn: "1/B0",
+      prepareTime: new Date("2024-01-01T00:00:00Z"),
+      xid: 750,
+      gid: "tx-1",
+    });
+  });
+
+  test("decodes commit prepared", () => {
+    const decoder = new PgoutputDecoder();
+    expect(
+      decoder.decode(new Uint8Array([char("K"), ...int8(0), ...prepared])),
+    ).toEqual({
+      tag: "commit_prepared",
+      flags: 0,
+      commitLsn: "1/A0",
+      commitEndLsn: "1/B0",
+      commitTime: new Date("2024-01-01T00:00:00Z"),
+      xid: 750,
+      gid: "tx-1",
+    });
+  });
+
+  test("decodes rollback prepared", () => {
+    const decoder = new PgoutputDecoder();
+    expect(
+      decoder.decode(
+        new Uint8Array([
+          char("r"),
+          ...int8(0),
+          ...int64(0x1_0000_00b0n),
+          ...int64(0x1_0000_00c0n),
+          ...int64(TIME),
+          ...int64(TIME + 1_000_000n),
+          ...int32(750),
+          ...string("tx-1"),
+        ]),
+      ),
+    ).toEqual({
+      tag: "rollback_prepared",
+      flags: 0,
+      prepareEndLsn: "1/B0",
+      rollbackEndLsn: "1/C0",
+      prepareTime: new Date("2024-01-01T00:00:00Z"),
+      rollbackTime: new Date("2024-01-01T00:00:01Z"),
+      xid: 750,
+      gid: "tx-1",
+    });
+  });
+});
+
+describe("unchanged TOAST values", () => {
+  const unchanged = [...int16(2), ...textTuple("1").slice(2), char("u")];
+
+  test("lists the unchanged columns of updates", () => {
+    const decoder = new PgoutputDecoder();
+    decoder.decode(new Uint8Array(RELATION));
+
+    const updated = decoder.decode(
+      new Uint8Array([char("U"), ...int32(16384), char("N"), ...unchanged]),
+    );
+    expect(updated).toEqual({
+      tag: "update",
+      relation: expect.objectContaining({ name: "users" }),
+      key: null,
+      old: null,
+      new: { id: 1, name: undefined },
+      unchangedColumns: ["name"],
+    });
+
+    const changed = decoder.decode(
+      new Uint8Array([
+        char("U"),
+        ...int32(16384),
+        char("N"),
+        ...textTuple("1", "alice"),
+      ]),
+    );
+    expect(changed).not.toHaveProperty("unchangedColumns");
+  });
+
+  test("takes unchanged values from the old row", () => {
+    const decoder = new PgoutputDecoder();
+    decoder.decode(new Uint8Array(RELATION));
+
+    const updated = decoder.decode(
+      new Uint8Array([
+        char("U"),
+        ...int32(16384),
+        char("O"),
+        ...textTuple("1", "alice"),
+        char("N"),
+        ...unchanged,
+      ]),
+    );
+    expect(updated).toMatchObject({ new: { id: 1, name: "alice" } });
+    expect(updated).not.toHaveProperty("unchangedColumns");
+  });
+});
+
+describe("binary format", () => {
+  test("decodes binary columns to the same values as text columns", () => {
+    const decoder = new PgoutputDecoder();
+    decoder.decode(new Uint8Array(RELATION));
+
+    const name = encoder.encode("alice");
+    const binary = decoder.decode(
+      new Uint8Array([
+        char("I"),
+        ...int32(16384),
+        char("N"),
+        ...int16(2),
+        char("b"),
+        ...int32(4),
+        ...int32(1),
+        char("b"),
+        ...int32(name.length),
+        ...name,
+      ]),
+    );
+    const text = decoder.decode(
+      new Uint8Array([
+        char("I"),
+        ...int32(16384),
+        char("N"),
+        ...textTuple("1", "alice"),
+      ]),
+    );
+
+    expect(binary).toEqual(text);
+    expect(binary).toMatchObject({ new: { id: 1, name: "alice" } });
+  });
+
+  test("decodes binary columns without a receiver as bytes", () => {
+    const decoder = new PgoutputDecoder({ binaryReceivers: new Map() });
+    decoder.decode(new Uint8Array(RELATION));
+
+    const inserted = decoder.decode(
+      new Uint8Array([
+        char("I"),
+        ...int32(16384),
+        char("N"),
+        ...int16(2),
+        char("b"),
+        ...int32(4),
+        ...int32(1),
+        char("n"),
+      ]),
+    );
+
+    expect(inserted).toMatchObject({
+      new: { id: Uint8Array.of(0, 0, 0, 1), name: null },
+    });
+  });
+});
+
+describe("relation versions", () => {
+  test("increments the version when a relation changes", () => {
+    const decoder = new PgoutputDecoder();
+    const v1 = decoder.decode(new Uint8Array(RELATION));
+    const resent = decoder.decode(new Uint8Array(RELATION));
+    const v2 = decoder.decode(
+      new Uint8Array([
+        char("R"),
+        ...int32(16384),
+        ...string("public"),
+        ...string("users"),
+        char("f"),
+        ...int16(1),
+        ...int8(1),
+        ...string("id"),
+        ...int32(23),
+        ...int32(-1),
+      ]),
+    );
+
+    expect(v1).toMatchObject({ tag: "relation", version: 1 });
+    expect(resent).toMatchObject({ tag: "relation", version: 1 });
+    expect(v2).toMatchObject({
+      tag: "relation",
+      replicaIdentity: "full",
+      version: 2,
+    });
+    expect(decoder.getRelationHistory(16384)).toEqual([v1, v2]);
+    expect(decoder.getRelationHistory(1)).toEqual([]);
+
+    const inserted = decoder.decode(
+      new Uint8Array([
+        char("I"),
+        ...int32(16384),
+        char("N"),
+        ...textTuple("1"),
+      ]),
+    );
+    expect(inserted).toMatchObject({ relation: { version: 2 } });
+  });
+});
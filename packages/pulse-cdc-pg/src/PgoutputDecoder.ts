@@ -1,15 +1,26 @@
 import pg from "pg";
 import { BinaryReader } from "./BinaryReader.js";
+import { binaryReceivers, type BinaryReceiver } from "./binaryReceivers.js";
 import { PgOutputProtocolError } from "./errors.js";
+import { diffRelations } from "./relationDiff.js";
 import type {
   PgoutputBegin,
+  PgoutputBeginPrepare,
   PgoutputCommit,
+  PgoutputCommitPrepared,
   PgoutputDelete,
   PgoutputInsert,
   PgoutputMessage,
   PgoutputMessages,
   PgoutputOrigin,
+  PgoutputPrepare,
   PgoutputRelation,
+  PgoutputRollbackPrepared,
+  PgoutputStreamAbort,
+  PgoutputStreamCommit,
+  PgoutputStreamPrepare,
+  PgoutputStreamStart,
+  PgoutputStreamStop,
   PgoutputTruncate,
   PgoutputType,
   PgoutputUpdate,
@@ -17,6 +28,15 @@ import type {
 } from "./messages.js";
 
 export interface PgoutputDecoderInit {
+  /**
+   * Receive functions to use in decoding binary format columns, keyed on the
+   * type OID. Each function converts the binary value to the text format of
+   * the type, which is then parsed by the type parser in `types`. Columns of
+   * types without a receive function are decoded as `Uint8Array`.
+   *
+   * @default binaryReceivers
+   */
+  binaryReceivers?: ReadonlyMap<number, BinaryReceiver>;
   /**
    * PostgreSQL type parsers to use in decoding scalar types.
    * Defaults to `pg.types`.
@@ -44,14 +64,39 @@ export class PgoutputDecoder {
     return 1 as const;
   }
 
+  /**
+   * The highest pgoutput protocol version supported by this decoder. Protocol
+   * version 2 is required to stream in-progress transactions and version 3 is
+   * required to decode two-phase commits.
+   */
+  static get MAX_PROTOCOL_VERSION() {
+    return 3 as const;
+  }
+
+  /** Receive functions to use in decoding binary format columns. */
+  readonly #binaryReceivers: ReadonlyMap<number, BinaryReceiver>;
   /** PostgreSQL type parsers to use in decoding scalar types. */
   readonly #types: pg.CustomTypesConfig;
   /** Cache of observed PostgreSQL relations keyed on the OID. */
   readonly #relationCache = new Map<number, PgoutputRelation>();
+  /** Every version of the observed PostgreSQL relations keyed on the OID. */
+  readonly #relationHistory = new Map<number, PgoutputRelation[]>();
   /** Cache of observed PostgreSQL data types keyed on the OID. */
   readonly #typeCache = new Map<number, PgTypeDef>();
+  /** Whether the decoder is between Stream Start and Stream Stop messages. */
+  #streaming = false;
+  /** The transaction ID of the current Stream Start message. */
+  #streamXid: number | null = null;
+  /** Replication origin of the current non-streamed transaction. */
+  #origin: string | null = null;
+  /**
+   * Replication origins of streamed transactions keyed on the transaction ID,
+   * since the origin is only sent in the first segment.
+   */
+  readonly #streamOrigins = new Map<number, string>();
 
   constructor(init: PgoutputDecoderInit = {}) {
+    this.#binaryReceivers = init.binaryReceivers ?? binaryReceivers;
     this.#types = init.types ?? pg.types;
   }
 
@@ -80,6 +125,24 @@ export class PgoutputDecoder {
         return this.#msgMessage(reader);
       case 0x43 /*C*/:
         return this.#msgCommit(reader);
+      case 0x53 /*S*/:
+        return this.#msgStreamStart(reader);
+      case 0x45 /*E*/:
+        return this.#msgStreamStop();
+      case 0x63 /*c*/:
+        return this.#msgStreamCommit(reader);
+      case 0x41 /*A*/:
+        return this.#msgStreamAbort(reader);
+      case 0x62 /*b*/:
+        return this.#msgBeginPrepare(reader);
+      case 0x50 /*P*/:
+        return this.#msgPrepare(reader);
+      case 0x4b /*K*/:
+        return this.#msgCommitPrepared(reader);
+      case 0x72 /*r*/:
+        return this.#msgRollbackPrepared(reader);
+      case 0x70 /*p*/:
+        return this.#msgStreamPrepare(reader);
       default: {
         const char = String.fromCharCode(tag);
         throw new PgOutputProtocolError(
@@ -89,6 +152,22 @@ export class PgoutputDecoder {
     }
   }
 
+  /**
+   * Returns every version of a relation observed by this decoder, ordered by
+   * version. Relations sent again without changes are not repeated.
+   */
+  getRelationHistory(oid: number): readonly PgoutputRelation[] {
+    return this.#relationHistory.get(oid) ?? [];
+  }
+
+  /** Returns the replication origin of the transaction of a change. */
+  #currentOrigin(): { origin?: string } {
+    const origin = this.#streaming
+      ? this.#streamOrigins.get(this.#streamXid!)
+      : this.#origin;
+    return origin ? { origin } : {};
+  }
+
   #getRelation(relid: number) {
     const relation = this.#relationCache.get(relid);
     if (!relation) {
@@ -102,6 +181,8 @@ export class PgoutputDecoder {
     const commitTime = reader.readTime();
     const xid = reader.readInt32();
 
+    this.#origin = null;
+
     return {
       tag: "begin",
       commitLsn,
@@ -110,12 +191,33 @@ export class PgoutputDecoder {
     };
   }
 
+  #msgBeginPrepare(reader: BinaryReader): PgoutputBeginPrepare {
+    const prepareLsn = reader.readLsn();
+    const prepareEndLsn = reader.readLsn();
+    const prepareTime = reader.readTime();
+    const xid = reader.readInt32();
+    const gid = reader.readString();
+
+    this.#origin = null;
+
+    return {
+      tag: "begin_prepare",
+      prepareLsn,
+      prepareEndLsn,
+      prepareTime,
+      xid,
+      gid,
+    };
+  }
+
   #msgCommit(reader: BinaryReader): PgoutputCommit {
     const flags = reader.readUint8();
     const commitLsn = reader.readLsn(); // should be the same as begin message
     const commitEndLsn = reader.readLsn();
     const commitTime = reader.readTime();
 
+    this.#origin = null;
+
     return {
       tag: "commit",
       flags,
@@ -125,7 +227,27 @@ export class PgoutputDecoder {
     };
   }
 
+  #msgCommitPrepared(reader: BinaryReader): PgoutputCommitPrepared {
+    const flags = reader.readUint8();
+    const commitLsn = reader.readLsn();
+    const commitEndLsn = reader.readLsn();
+    const commitTime = reader.readTime();
+    const xid = reader.readInt32();
+    const gid = reader.readString();
+
+    return {
+      tag: "commit_prepared",
+      flags,
+      commitLsn,
+      commitEndLsn,
+      commitTime,
+      xid,
+      gid,
+    };
+  }
+
   #msgDelete(reader: BinaryReader): PgoutputDelete {
+    const xid = this.#readStreamXid(reader);
     const relid = reader.readInt32();
     const relation = this.#getRelation(relid);
 
@@ -144,6 +266,8 @@ export class PgoutputDecoder {
 
     return {
       tag: "delete",
+      ...xid,
+      ...this.#currentOrigin(),
       relation,
       key,
       old,
@@ -151,6 +275,7 @@ export class PgoutputDecoder {
   }
 
   #msgInsert(reader: BinaryReader): PgoutputInsert {
+    const xid = this.#readStreamXid(reader);
     const relid = reader.readInt32();
     const relation = this.#getRelation(relid);
 
@@ -160,12 +285,15 @@ export class PgoutputDecoder {
 
     return {
       tag: "insert",
+      ...xid,
+      ...this.#currentOrigin(),
       relation,
       new: inserted,
     };
   }
 
   #msgMessage(reader: BinaryReader): PgoutputMessage {
+    const xid = this.#readStreamXid(reader);
     const flags = reader.readUint8();
     const messageLsn = reader.readLsn();
     const prefix = reader.readString();
@@ -174,6 +302,8 @@ export class PgoutputDecoder {
 
     return {
       tag: "message",
+      ...xid,
+      ...this.#currentOrigin(),
       flags,
       transactional: Boolean(flags & 0b1),
       messageLsn,
@@ -186,6 +316,12 @@ export class PgoutputDecoder {
     const originLsn = reader.readLsn();
     const originName = reader.readString();
 
+    if (this.#streaming && this.#streamXid !== null) {
+      this.#streamOrigins.set(this.#streamXid, originName);
+    } else {
+      this.#origin = originName;
+    }
+
     return {
       tag: "origin",
       originLsn,
@@ -193,7 +329,29 @@ export class PgoutputDecoder {
     };
   }
 
+  #msgPrepare(reader: BinaryReader): PgoutputPrepare {
+    const flags = reader.readUint8();
+    const prepareLsn = reader.readLsn();
+    const prepareEndLsn = reader.readLsn();
+    const prepareTime = reader.readTime();
+    const xid = reader.readInt32();
+    const gid = reader.readString();
+
+    this.#origin = null;
+
+    return {
+      tag: "prepare",
+      flags,
+      prepareLsn,
+      prepareEndLsn,
+      prepareTime,
+      xid,
+      gid,
+    };
+  }
+
   #msgRelation(reader: BinaryReader): PgoutputRelation {
+    const xid = this.#readStreamXid(reader);
     const oid = reader.readInt32();
     const schema = reader.readString();
     const name = reader.readString();
@@ -203,22 +361,138 @@ export class PgoutputDecoder {
     );
     const keyColumns = columns.filter((x) => x.flags & 0b1).map((x) => x.name);
 
+    const history = this.#relationHistory.get(oid) ?? [];
+    const cached = history.at(-1);
+
     const msg: PgoutputRelation = {
       tag: "relation",
+      ...xid,
       oid,
       schema,
       name,
       replicaIdentity,
       columns,
       keyColumns,
+      version: 1,
     };
 
+    // relations are also sent again without changes, such as after
+    // reconnecting, which does not create a new version
+    const changed = !cached || diffRelations(cached, msg) !== null;
+    if (cached) {
+      msg.version = changed ? cached.version + 1 : cached.version;
+    }
+    if (changed) {
+      history.push(msg);
+      this.#relationHistory.set(oid, history);
+    }
     this.#relationCache.set(oid, msg);
 
     return msg;
   }
 
+  #msgRollbackPrepared(reader: BinaryReader): PgoutputRollbackPrepared {
+    const flags = reader.readUint8();
+    const prepareEndLsn = reader.readLsn();
+    const rollbackEndLsn = reader.readLsn();
+    const prepareTime = reader.readTime();
+    const rollbackTime = reader.readTime();
+    const xid = reader.readInt32();
+    const gid = reader.readString();
+
+    return {
+      tag: "rollback_prepared",
+      flags,
+      prepareEndLsn,
+      rollbackEndLsn,
+      prepareTime,
+      rollbackTime,
+      xid,
+      gid,
+    };
+  }
+
+  #msgStreamAbort(reader: BinaryReader): PgoutputStreamAbort {
+    const xid = reader.readInt32();
+    const subXid = reader.readInt32();
+
+    // aborting a subtransaction continues the transaction
+    if (xid === subXid) {
+      this.#streamOrigins.delete(xid);
+    }
+
+    return {
+      tag: "stream_abort",
+      xid,
+      subXid,
+    };
+  }
+
+  #msgStreamCommit(reader: BinaryReader): PgoutputStreamCommit {
+    const xid = reader.readInt32();
+    const flags = reader.readUint8();
+    const commitLsn = reader.readLsn();
+    const commitEndLsn = reader.readLsn();
+    const commitTime = reader.readTime();
+
+    this.#streamOrigins.delete(xid);
+
+    return {
+      tag: "stream_commit",
+      xid,
+      flags,
+      commitLsn,
+      commitEndLsn,
+      commitTime,
+    };
+  }
+
+  #msgStreamPrepare(reader: BinaryReader): PgoutputStreamPrepare {
+    const flags = reader.readUint8();
+    const prepareLsn = reader.readLsn();
+    const prepareEndLsn = reader.readLsn();
+    const prepareTime = reader.readTime();
+    const xid = reader.readInt32();
+    const gid = reader.readString();
+
+    this.#streamOrigins.delete(xid);
+
+    return {
+      tag: "stream_prepare",
+      flags,
+      prepareLsn,
+      prepareEndLsn,
+      prepareTime,
+      xid,
+      gid,
+    };
+  }
+
+  #msgStreamStart(reader: BinaryReader): PgoutputStreamStart {
+    const xid = reader.readInt32();
+    const firstSegment = reader.readUint8() === 1;
+
+    this.#streaming = true;
+    this.#streamXid = xid;
+
+    return {
+      tag: "stream_start",
+      xid,
+      firstSegment,
+    };
+  }
+
+  #msgStreamStop(): PgoutputStreamStop {
+    this.#streaming = false;
+    this.#streamXid = null;
+
+    return {
+      tag: "stream_stop",
+    };
+  }
+
   #msgTruncate(reader: BinaryReader): PgoutputTruncate {
+    const xid = this.#readStreamXid(reader);
     const nrels = reader.readInt32();
     const flags = reader.readUint8();
     const relations = Array.from({ length: nrels }, () => {
@@ -228,6 +502,8 @@ export class PgoutputDecoder {
 
     return {
       tag: "truncate",
+      ...xid,
+      ...this.#currentOrigin(),
       cascade: Boolean(flags & 0b1),
       restartIdentity: Boolean(flags & 0b10),
       relations,
@@ -235,6 +511,7 @@ export class PgoutputDecoder {
   }
 
   #msgType(reader: BinaryReader): PgoutputType {
+    const xid = this.#readStreamXid(reader);
     const typeOid = reader.readInt32();
     const typeSchema = reader.readString();
     const typeName = reader.readString();
@@ -243,6 +520,7 @@ export class PgoutputDecoder {
 
     return {
       tag: "type",
+      ...xid,
       typeOid,
       typeSchema,
       typeName,
@@ -250,30 +528,41 @@ export class PgoutputDecoder {
   }
 
   #msgUpdate(reader: BinaryReader): PgoutputUpdate {
+    const xid = this.#readStreamXid(reader);
     const relid = reader.readInt32();
     const relation = this.#getRelation(relid);
 
     let key: Record<string, unknown> | null = null;
     let old: Record<string, unknown> | null = null;
     let new_: Record<string, unknown> | null = null;
+    const unchangedColumns: string[] = [];
 
     const subMsgKey = reader.readUint8();
     if (subMsgKey === 0x4b /*K*/) {
       key = this.#readKeyTuple(reader, relation);
       reader.readUint8(); // consume the 'N' key
-      new_ = this.#readTuple(reader, relation);
+      new_ = this.#readTuple(reader, relation, null, unchangedColumns);
     } else if (subMsgKey === 0x4f /*O*/) {
       old = this.#readTuple(reader, relation);
       reader.readUint8(); // consume the 'N' key
-      new_ = this.#readTuple(reader, relation, old);
+      new_ = this.#readTuple(reader, relation, old, unchangedColumns);
     } else if (subMsgKey === 0x4e /*N*/) {
-      new_ = this.#readTuple(reader, relation);
+      new_ = this.#readTuple(reader, relation, null, unchangedColumns);
     } else {
       const char = String.fromCharCode(subMsgKey);
       throw new PgOutputProtocolError(`unknown submessage key ${char}`);
     }
 
-    return { tag: "update", relation, key, old, new: new_ };
+    return {
+      tag: "update",
+      ...xid,
+      ...this.#currentOrigin(),
+      relation,
+      key,
+      old,
+      new: new_,
+      ...(unchangedColumns.length > 0 && { unchangedColumns }),
+    };
   }
 
   #readKeyTuple(
@@ -335,24 +624,38 @@ export class PgoutputDecoder {
     }
   }
 
+  /**
+   * Reads the transaction ID that prefixes messages sent within a streamed
+   * transaction (protocol version 2 and later).
+   */
+  #readStreamXid(reader: BinaryReader): { xid?: number } {
+    return this.#streaming ? { xid: reader.readInt32() } : {};
+  }
+
+  /**
+   * Reads a tuple of column values. Unchanged TOASTed values are taken from
+   * `unchangedToastFallback` when present, and otherwise are `undefined` and
+   * their column names are added to `unchangedColumns`.
+   */
   #readTuple(
     reader: BinaryReader,
     { columns }: PgoutputRelation,
     unchangedToastFallback?: Record<string, unknown> | null,
+    unchangedColumns?: string[],
   ): Record<string, unknown> {
     const nfields = reader.readInt16();
 
     const tuple: Record<string, unknown> = {};
     for (let i = 0; i < nfields; i++) {
-      const { name, parser } = columns[i]!;
+      const { name, parser, typeOid } = columns[i]!;
       const kind = reader.readUint8();
 
       switch (kind) {
         case 0x62 /*b binary*/: {
           const bsize = reader.readInt32();
           const bval = reader.read(bsize);
-          // TODO: should we clone the buffer here?
-          tuple[name] = bval;
+          const receive = this.#binaryReceivers.get(typeOid);
+          tuple[name] = receive ? parser(receive(bval)) : bval;
           break;
         }
         case 0x74 /*t text*/: {
@@ -365,6 +668,9 @@ export class PgoutputDecoder {
           break;
         case 0x75 /*u unchanged toast datum*/:
           tuple[name] = unchangedToastFallback?.[name];
+          if (tuple[name] === undefined) {
+            unchangedColumns?.push(name);
+          }
           break;
         default: {
           const char = String.fromCharCode(kind);
@@ -2,12 +2,18 @@ import {
   PgoutputDecoder,
   type PgoutputDecoderInit,
 } from "./PgoutputDecoder.js";
+import type { ReplicationMetrics } from "./ReplicationMetrics.js";
 import { WalMessageDecoder } from "./WalMessageDecoder.js";
 
 export type WalPgoutputMessage = ReturnType<
   WalMessageDecoder<ReturnType<PgoutputDecoder["decode"]>>["decode"]
 >;
 
+export interface PgOutputDecoderStreamInit extends PgoutputDecoderInit {
+  /** Metrics to record decoded messages and decode times in. */
+  metrics?: ReplicationMetrics;
+}
+
 /**
  * Implementation of `TransformStream` that decodes pgoutput messages from
  * `Uint8Array` packets. Each packet written to the stream should contain a
@@ -27,11 +33,22 @@ export class PgOutputDecoderStream extends TransformStream<
     return PgoutputDecoder.PROTOCOL_VERSION;
   }
 
-  constructor(init?: PgoutputDecoderInit) {
+  /**
+   * The highest protocol version supported by this transform stream. Required
+   * when `streaming` or `two_phase` is enabled in `START_REPLICATION`.
+   */
+  static get MAX_PROTOCOL_VERSION() {
+    return PgoutputDecoder.MAX_PROTOCOL_VERSION;
+  }
+
+  constructor(init?: PgOutputDecoderStreamInit) {
     const decoder = new WalMessageDecoder(new PgoutputDecoder(init));
+    const metrics = init?.metrics;
     super({
       transform(bytes, controller) {
+        const start = performance.now();
         const message = decoder.decode(bytes);
+        metrics?.recordMessage(message, performance.now() - start);
         controller.enqueue(message);
       },
     });
@@ -0,0 +1,214 @@
+import pg from "pg";
+import { expect, test } from "vitest";
+import type { PgoutputMessages, PgoutputRelation } from "./messages.js";
+import { PgoutputDecoder } from "./PgoutputDecoder.js";
+import { PgoutputEncoder } from "./PgoutputEncoder.js";
+import { WalMessageDecoder } from "./WalMessageDecoder.js";
+import { WalMessageEncoder } from "./WalMessageEncoder.js";
+
+function column(name: string, typeOid: number, flags = 0) {
+  return {
+    flags,
+    name,
+    typeOid,
+    typeMod: -1,
+    typeSchema: null,
+    typeName: null,
+    parser: pg.types.getTypeParser(typeOid),
+  };
+}
+
+const relation: PgoutputRelation = {
+  tag: "relation",
+  oid: 16384,
+  schema: "public",
+  name: "users",
+  replicaIdentity: "default",
+  columns: [
+    column("id", 23, 1),
+    column("name", 25),
+    column("active", 16),
+    column("created_at", 1184),
+    column("updated_at", 1114),
+    column("birthday", 1082),
+    column("tags", 1009),
+    column("data", 3802),
+    column("avatar", 17),
+  ],
+  keyColumns: ["id"],
+  version: 1,
+};
+
+const time = new Date("2024-01-01T00:00:00Z");
+
+const row = {
+  id: 1,
+  name: 'alice "al" \\',
+  active: true,
+  created_at: new Date("2024-01-01T12:34:56.789Z"),
+  updated_at: new Date(2024, 0, 1, 12, 34, 56, 789),
+  birthday: new Date(1990, 4, 17),
+  tags: ["a", 'quoted "b"', null],
+  data: { nested: [1, 2] },
+  avatar: Buffer.from([0, 1, 255]),
+};
+
+const prepared = {
+  prepareLsn: "1/A0",
+  prepareEndLsn: "1/B0",
+  prepareTime: time,
+  xid: 750,
+  gid: "tx-1",
+};
+
+const origin = "us-east";
+
+const messages: PgoutputMessages[] = [
+  {
+    tag: "type",
+    typeOid: 16390,
+    typeSchema: "public",
+    typeName: "mood",
+  },
+  relation,
+  { tag: "begin", commitLsn: "1/A0", commitTime: time, xid: 750 },
+  { tag: "origin", originLsn: "1/5", originName: origin },
+  { tag: "insert", origin, relation, new: row },
+  {
+    tag: "insert",
+    origin,
+    relation,
+    new: { ...row, data: null, avatar: undefined },
+  },
+  { tag: "update", origin, relation, key: null, old: null, new: row },
+  { tag: "update", origin, relation, key: { id: 2 }, old: null, new: row },
+  {
+    tag: "update",
+    origin,
+    relation,
+    key: null,
+    old: { ...row, id: 2 },
+    new: row,
+  },
+  { tag: "delete", origin, relation, key: { id: 1 }, old: null },
+  { tag: "delete", origin, relation, key: null, old: row },
+  {
+    tag: "truncate",
+    origin,
+    cascade: true,
+    restartIdentity: false,
+    relations: [relation],
+  },
+  {
+    tag: "message",
+    origin,
+    flags: 1,
+    transactional: true,
+    messageLsn: "1/A8",
+    prefix: "app",
+    content: new Uint8Array([1, 2, 3]),
+  },
+  {
+    tag: "commit",
+    flags: 0,
+    commitLsn: "1/A0",
+    commitEndLsn: "1/B0",
+    commitTime: time,
+  },
+  { tag: "stream_start", xid: 751, firstSegment: true },
+  { ...relation, xid: 751 },
+  { tag: "insert", xid: 751, relation: { ...relation, xid: 751 }, new: row },
+  { tag: "stream_stop" },
+  { tag: "stream_abort", xid: 751, subXid: 752 },
+  {
+    tag: "stream_commit",
+    xid: 751,
+    flags: 0,
+    commitLsn: "1/A0",
+    commitEndLsn: "1/B0",
+    commitTime: time,
+  },
+  { tag: "begin_prepare", ...prepared },
+  { tag: "prepare", flags: 0, ...prepared },
+  { tag: "stream_prepare", flags: 0, ...prepared },
+  {
+    tag: "commit_prepared",
+    flags: 0,
+    commitLsn: "1/A0",
+    commitEndLsn: "1/B0",
+    commitTime: time,
+    xid: 750,
+    gid: "tx-1",
+  },
+  {
+    tag: "rollback_prepared",
+    flags: 0,
+    prepareEndLsn: "1/B0",
+    rollbackEndLsn: "1/C0",
+    prepareTime: time,
+    rollbackTime: time,
+    xid: 750,
+    gid: "tx-1",
+  },
+];
+
+test("round trips every message", () => {
+  const encoder = new PgoutputEncoder();
+  const decoder = new PgoutputDecoder();
+
+  expect(messages.map((x) => decoder.decode(encoder.encode(x)))).toEqual(
+    messages,
+  );
+});
+
+test("encodes key tuples with nulls for other columns", () => {
+  const encoder = new PgoutputEncoder();
+  const decoder = new PgoutputDecoder();
+  decoder.decode(encoder.encode(relation));
+
+  const bytes = encoder.encode({
+    tag: "delete",
+    relation,
+    key: { id: 1 },
+    old: null,
+  });
+  // tag, relation OID, 'K', column count, 't' and the id, then 'n' nulls
+  expect(bytes).toHaveLength(1 + 4 + 1 + 2 + 6 + 8);
+  expect(bytes.subarray(14)).toEqual(new Uint8Array(8).fill(0x6e));
+});
+
+test("formats values with custom formatters", () => {
+  const encoder = new PgoutputEncoder({
+    formatters: new Map([[25, (value) => String(value).toUpperCase()]]),
+  });
+  const decoder = new PgoutputDecoder();
+  decoder.decode(encoder.encode(relation));
+
+  expect(
+    decoder.decode(
+      encoder.encode({ tag: "insert", relation, new: { id: 1, name: "bob" } }),
+    ),
+  ).toMatchObject({ new: { id: 1, name: "BOB" } });
+});
+
+test("round trips WAL envelopes", () => {
+  const encoder = new WalMessageEncoder(new PgoutputEncoder());
+  const decoder = new WalMessageDecoder(new PgoutputDecoder());
+
+  const keepalive = {
+    type: "keepalive" as const,
+    currentLsn: "1/B0",
+    systemTime: time,
+    shouldRespond: true,
+  };
+  expect(decoder.decode(encoder.encode(keepalive))).toEqual(keepalive);
+
+  const waldata = {
+    type: "waldata" as const,
+    currentLsn: "1/B0",
+    messageLsn: "1/A0",
+    systemTime: time,
+    message: relation,
+  };
+  expect(decoder.decode(encoder.encode(waldata))).toEqual(waldata);
+});
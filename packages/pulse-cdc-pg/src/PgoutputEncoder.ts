@@ -0,0 +1,325 @@
+import { BinaryWriter } from "./BinaryWriter.js";
+import type { PgoutputMessages, PgoutputRelation } from "./messages.js";
+
+/**
+ * Converts a column value into the PostgreSQL text format of its type, the
+ * inverse of the type parser.
+ */
+export type TextFormatter = (value: unknown) => string;
+
+export interface PgoutputEncoderInit {
+  /**
+   * Functions to use in formatting column values as text, keyed on the type
+   * OID. Values of other types are formatted from their JavaScript type, such
+   * as `Date`, `Uint8Array`, arrays and JSON objects.
+   */
+  formatters?: ReadonlyMap<number, TextFormatter>;
+}
+
+const REPLICA_IDENTITIES = {
+  default: 0x64 /*d*/,
+  nothing: 0x6e /*n*/,
+  full: 0x66 /*f*/,
+  index: 0x69 /*i*/,
+} as const;
+
+/** Element type OIDs of array types with elements formatted by type. */
+const ARRAY_ELEMENTS: Record<number, number> = {
+  1115: 1114, // timestamp[]
+  1182: 1082, // date[]
+};
+
+function pad(value: number, length = 2) {
+  return String(value).padStart(length, "0");
+}
+
+function formatDate(value: Date, typeOid: number): string {
+  // dates and timestamps without a time zone are parsed as local time
+  if (typeOid === 1082 /* date */) {
+    return `${pad(value.getFullYear(), 4)}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+  }
+  if (typeOid === 1114 /* timestamp */) {
+    return `${formatDate(value, 1082)} ${pad(value.getHours())}:${pad(value.getMinutes())}:${pad(value.getSeconds())}.${pad(value.getMilliseconds(), 3)}`;
+  }
+  return value.toISOString().replace("T", " ").replace("Z", "+00");
+}
+
+function formatText(typeOid: number, value: unknown): string {
+  if (typeof value === "string") {
+    return value;
+  }
+  if (typeof value === "boolean") {
+    return value ? "t" : "f";
+  }
+  if (value instanceof Date) {
+    return formatDate(value, typeOid);
+  }
+  if (value instanceof Uint8Array) {
+    return `\\x${Buffer.from(value).toString("hex")}`;
+  }
+  if (Array.isArray(value)) {
+    const element = ARRAY_ELEMENTS[typeOid] ?? 0;
+    const items = value.map((x) => {
+      if (x === null || x === undefined) {
+        return "NULL";
+      }
+      const text = formatText(element, x);
+      return Array.isArray(x) ? text : `"${text.replace(/[\\"]/g, "\\$&")}"`;
+    });
+    return `{${items.join(",")}}`;
+  }
+  if (typeof value === "object" && value !== null) {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+/**
+ * Encoder for pgoutput binary messages, the counterpart of `PgoutputDecoder`.
+ * Useful for building realistic messages in tests without a server.
+ *
+ * Column values are encoded in the text format, `null` values as nulls and
+ * `undefined` values as unchanged TOAST values. Messages with an `xid` are
+ * encoded as part of a streamed transaction.
+ *
+ * @see {@link https://www.postgresql.org/docs/current/protocol-logicalrep-message-formats.html | PostgreSQL docs}
+ */
+export class PgoutputEncoder {
+  /** Functions to use in formatting column values as text. */
+  readonly #formatters: ReadonlyMap<number, TextFormatter>;
+
+  constructor(init: PgoutputEncoderInit = {}) {
+    this.#formatters = init.formatters ?? new Map();
+  }
+
+  encode(message: PgoutputMessages): Uint8Array {
+    const writer = new BinaryWriter();
+
+    switch (message.tag) {
+      case "begin":
+        writer
+          .writeUint8(0x42 /*B*/)
+          .writeLsn(message.commitLsn)
+          .writeTime(message.commitTime)
+          .writeInt32(message.xid);
+        break;
+      case "begin_prepare":
+        writer
+          .writeUint8(0x62 /*b*/)
+          .writeLsn(message.prepareLsn)
+          .writeLsn(message.prepareEndLsn)
+          .writeTime(message.prepareTime)
+          .writeInt32(message.xid)
+          .writeString(message.gid);
+        break;
+      case "commit":
+        writer
+          .writeUint8(0x43 /*C*/)
+          .writeUint8(message.flags)
+          .writeLsn(message.commitLsn)
+          .writeLsn(message.commitEndLsn)
+          .writeTime(message.commitTime);
+        break;
+      case "commit_prepared":
+        writer
+          .writeUint8(0x4b /*K*/)
+          .writeUint8(message.flags)
+          .writeLsn(message.commitLsn)
+          .writeLsn(message.commitEndLsn)
+          .writeTime(message.commitTime)
+          .writeInt32(message.xid)
+          .writeString(message.gid);
+        break;
+      case "delete":
+        this.#writeStreamXid(writer.writeUint8(0x44 /*D*/), message.xid);
+        writer.writeInt32(message.relation.oid);
+        if (message.old) {
+          this.#writeTuple(
+            writer.writeUint8(0x4f /*O*/),
+            message.relation,
+            message.old,
+          );
+        } else {
+          this.#writeKeyTuple(
+            writer.writeUint8(0x4b /*K*/),
+            message.relation,
+            message.key ?? {},
+          );
+        }
+        break;
+      case "insert":
+        this.#writeStreamXid(writer.writeUint8(0x49 /*I*/), message.xid);
+        writer.writeInt32(message.relation.oid).writeUint8(0x4e /*N*/);
+        this.#writeTuple(writer, message.relation, message.new);
+        break;
+      case "message":
+        this.#writeStreamXid(writer.writeUint8(0x4d /*M*/), message.xid);
+        writer
+          .writeUint8(message.flags)
+          .writeLsn(message.messageLsn)
+          .writeString(message.prefix)
+          .writeInt32(message.content.length)
+          .write(message.content);
+        break;
+      case "origin":
+        writer
+          .writeUint8(0x4f /*O*/)
+          .writeLsn(message.originLsn)
+          .writeString(message.originName);
+        break;
+      case "prepare":
+      case "stream_prepare":
+        writer
+          .writeUint8(message.tag === "prepare" ? 0x50 /*P*/ : 0x70 /*p*/)
+          .writeUint8(message.flags)
+          .writeLsn(message.prepareLsn)
+          .writeLsn(message.prepareEndLsn)
+          .writeTime(message.prepareTime)
+          .writeInt32(message.xid)
+          .writeString(message.gid);
+        break;
+      case "relation":
+        this.#writeStreamXid(writer.writeUint8(0x52 /*R*/), message.xid);
+        writer
+          .writeInt32(message.oid)
+          .writeString(message.schema)
+          .writeString(message.name)
+          .writeUint8(REPLICA_IDENTITIES[message.replicaIdentity])
+          .writeInt16(message.columns.length);
+        for (const column of message.columns) {
+          writer
+            .writeUint8(column.flags)
+            .writeString(column.name)
+            .writeInt32(column.typeOid)
+            .writeInt32(column.typeMod);
+        }
+        break;
+      case "rollback_prepared":
+        writer
+          .writeUint8(0x72 /*r*/)
+          .writeUint8(message.flags)
+          .writeLsn(message.prepareEndLsn)
+          .writeLsn(message.rollbackEndLsn)
+          .writeTime(message.prepareTime)
+          .writeTime(message.rollbackTime)
+          .writeInt32(message.xid)
+          .writeString(message.gid);
+        break;
+      case "stream_abort":
+        writer
+          .writeUint8(0x41 /*A*/)
+          .writeInt32(message.xid)
+          .writeInt32(message.subXid);
+        break;
+      case "stream_commit":
+        writer
+          .writeUint8(0x63 /*c*/)
+          .writeInt32(message.xid)
+          .writeUint8(message.flags)
+          .writeLsn(message.commitLsn)
+          .writeLsn(message.commitEndLsn)
+          .writeTime(message.commitTime);
+        break;
+      case "stream_start":
+        writer
+          .writeUint8(0x53 /*S*/)
+          .writeInt32(message.xid)
+          .writeUint8(message.firstSegment ? 1 : 0);
+        break;
+      case "stream_stop":
+        writer.writeUint8(0x45 /*E*/);
+        break;
+      case "truncate":
+        this.#writeStreamXid(writer.writeUint8(0x54 /*T*/), message.xid);
+        writer
+          .writeInt32(message.relations.length)
+          .writeUint8(
+            (message.cascade ? 0b1 : 0) | (message.restartIdentity ? 0b10 : 0),
+          );
+        for (const relation of message.relations) {
+          writer.writeInt32(relation.oid);
+        }
+        break;
+      case "type":
+        this.#writeStreamXid(writer.writeUint8(0x59 /*Y*/), message.xid);
+        writer
+          .writeInt32(message.typeOid)
+          .writeString(message.typeSchema)
+          .writeString(message.typeName);
+        break;
+      case "update":
+        this.#writeStreamXid(writer.writeUint8(0x55 /*U*/), message.xid);
+        writer.writeInt32(message.relation.oid);
+        if (message.old) {
+          this.#writeTuple(
+            writer.writeUint8(0x4f /*O*/),
+            message.relation,
+            message.old,
+          );
+        } else if (message.key) {
+          this.#writeKeyTuple(
+            writer.writeUint8(0x4b /*K*/),
+            message.relation,
+            message.key,
+          );
+        }
+        this.#writeTuple(
+          writer.writeUint8(0x4e /*N*/),
+          message.relation,
+          message.new,
+        );
+        break;
+    }
+
+    return writer.toUint8Array();
+  }
+
+  /**
+   * Writes a tuple containing only the key columns, with other columns
+   * written as nulls.
+   */
+  #writeKeyTuple(
+    writer: BinaryWriter,
+    relation: PgoutputRelation,
+    key: Record<string, unknown>,
+  ) {
+    const tuple = Object.fromEntries(
+      relation.keyColumns.map((name) => [name, key[name]]),
+    );
+    this.#writeTuple(writer, relation, tuple, null);
+  }
+
+  /**
+   * Writes the transaction ID that prefixes messages sent within a streamed
+   * transaction (protocol version 2 and later).
+   */
+  #writeStreamXid(writer: BinaryWriter, xid: number | undefined) {
+    if (xid !== undefined) {
+      writer.writeInt32(xid);
+    }
+  }
+
+  #writeTuple(
+    writer: BinaryWriter,
+    { columns }: PgoutputRelation,
+    tuple: Record<string, unknown>,
+    missing: null | undefined = undefined,
+  ) {
+    writer.writeInt16(columns.length);
+    for (const { name, typeOid } of columns) {
+      const value = name in tuple ? tuple[name] : missing;
+      if (value === null) {
+        writer.writeUint8(0x6e /*n null*/);
+      } else if (value === undefined) {
+        writer.writeUint8(0x75 /*u unchanged toast datum*/);
+      } else {
+        const format = this.#formatters.get(typeOid);
+        writer
+          .writeUint8(0x74 /*t text*/)
+          .writeLengthEncodedString(
+            format ? format(value) : formatText(typeOid, value),
+          );
+      }
+    }
+  }
+}
@@ -0,0 +1,115 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { setTimeout } from "node:timers/promises";
+import { afterEach, beforeEach, expect, test } from "vitest";
+import { PgOutputDecoderStream } from "./PgoutputDecoderStream.js";
+import { ReplayStream } from "./ReplayStream.js";
+import { ReplicationRecorder } from "./ReplicationRecorder.js";
+
+/** 2024-01-01T00:00:00Z as microseconds since the PostgreSQL epoch. */
+const TIME = 757382400000000n;
+
+function keepalive(lsn: bigint) {
+  const bytes = Buffer.alloc(18);
+  bytes.write("k", 0);
+  bytes.writeBigUInt64BE(lsn, 1);
+  bytes.writeBigUInt64BE(TIME, 9);
+  bytes.writeUInt8(0, 17);
+  return new Uint8Array(bytes);
+}
+
+async function collect<T>(readable: ReadableStream<T>) {
+  const result: T[] = [];
+  const reader = readable.getReader();
+  for (let next = await reader.read(); !next.done; next = await reader.read()) {
+    result.push(next.value);
+  }
+  return result;
+}
+
+/** Records the packets, waiting `interval` milliseconds between packets. */
+async function record(path: string, packets: Uint8Array[], interval = 0) {
+  const readable = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const packet = packets.shift();
+      if (!packet) {
+        controller.close();
+        return;
+      }
+      if (interval) {
+        await setTimeout(interval);
+      }
+      controller.enqueue(packet);
+    },
+  });
+  return collect(readable.pipeThrough(new ReplicationRecorder({ path })));
+}
+
+let directory: string;
+let path: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(join(tmpdir(), "pulse-test-"));
+  path = join(directory, "recording.bin");
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+test("replays recorded packets", async () => {
+  const packets = [keepalive(1n), keepalive(2n), keepalive(0x100000000n)];
+  expect(await record(path, [...packets])).toEqual(packets);
+
+  const messages = await collect(
+    new ReplayStream({ path, speed: Infinity }).pipeThrough(
+      new PgOutputDecoderStream(),
+    ),
+  );
+  expect(messages.map((x) => x.currentLsn)).toEqual(["0/1", "0/2", "1/0"]);
+});
+
+test("replays at the recorded pace", async () => {
+  await record(path, [keepalive(1n), keepalive(2n), keepalive(3n)], 50);
+
+  let start = performance.now();
+  expect(await collect(new ReplayStream({ path }))).toHaveLength(3);
+  // the first packet is emitted immediately
+  expect(performance.now() - start).toBeGreaterThanOrEqual(90);
+
+  start = performance.now();
+  expect(await collect(new ReplayStream({ path, speed: 10 }))).toHaveLength(3);
+  expect(performance.now() - start).toBeLessThan(90);
+});
+
+test("closes the recording when the pipeline is aborted", async () => {
+  const recorder = new ReplicationRecorder({ path });
+  const writer = recorder.writable.getWriter();
+  const reader = recorder.readable.getReader();
+  void writer.write(keepalive(0x10n));
+  await reader.read();
+
+  await writer.abort(new Error("aborted"));
+
+  // the packets recorded before the abort are kept
+  expect(await collect(new ReplayStream({ path }))).toEqual([keepalive(0x10n)]);
+});
+
+test("errors on files that are not recordings", async () => {
+  await writeFile(path, "not a recording");
+
+  await expect(collect(new ReplayStream({ path }))).rejects.toThrow(
+    /is not a replication recording/,
+  );
+});
+
+test("errors on incomplete packets", async () => {
+  await record(path, [keepalive(1n)]);
+  const bytes = await readFile(path);
+  await writeFile(path, bytes.subarray(0, bytes.length - 1));
+
+  await expect(collect(new ReplayStream({ path }))).rejects.toThrow(
+    /ends with an incomplete packet/,
+  );
+});
@@ -0,0 +1,95 @@
+import { open } from "node:fs/promises";
+import { setTimeout } from "node:timers/promises";
+import {
+  RECORD_HEADER_SIZE,
+  RECORDING_MAGIC,
+  RECORDING_VERSION,
+} from "./ReplicationRecorder.js";
+
+export interface ReplayStreamInit {
+  /** Path of a recording written by `ReplicationRecorder`. */
+  path: string;
+  /**
+   * Multiplier of the original pace of the recording. For example, `2` emits
+   * packets twice as fast as they were received, and `Infinity` emits packets
+   * without waiting.
+   *
+   * @default 1
+   */
+  speed?: number;
+}
+
+async function* readRecording(path: string) {
+  const handle = await open(path, "r");
+  try {
+    const preamble = Buffer.alloc(RECORDING_MAGIC.length + 1);
+    await handle.read(preamble, 0, preamble.length);
+    if (!preamble.subarray(0, RECORDING_MAGIC.length).equals(RECORDING_MAGIC)) {
+      throw new TypeError(`${path} is not a replication recording`);
+    }
+    const version = preamble[RECORDING_MAGIC.length];
+    if (version !== RECORDING_VERSION) {
+      throw new TypeError(`unsupported recording version ${version}`);
+    }
+
+    const header = Buffer.alloc(RECORD_HEADER_SIZE);
+    while (
+      (await handle.read(header, 0, RECORD_HEADER_SIZE)).bytesRead ===
+      RECORD_HEADER_SIZE
+    ) {
+      const bytes = new Uint8Array(header.readUInt32BE(0));
+      const { bytesRead } = await handle.read(bytes, 0, bytes.length);
+      if (bytesRead !== bytes.length) {
+        throw new TypeError(`${path} ends with an incomplete packet`);
+      }
+      yield { time: header.readDoubleBE(4), bytes };
+    }
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Implementation of `ReadableStream` that replays the packets recorded by
+ * `ReplicationRecorder`, so that recorded replication traffic can be decoded
+ * by `PgOutputDecoderStream` without a server. Packets are emitted with the
+ * delays between them in the recording, divided by `speed`.
+ */
+export class ReplayStream extends ReadableStream<Uint8Array> {
+  constructor(
+    init: ReplayStreamInit,
+    queuingStrategy: QueuingStrategy<Uint8Array> = { highWaterMark: 0 },
+  ) {
+    const { path, speed = 1 } = init;
+    if (!(speed > 0)) {
+      throw new RangeError(`speed must be positive, received ${speed}`);
+    }
+
+    let packets: ReturnType<typeof readRecording> | undefined;
+    let previousTime: number | undefined;
+    super(
+      {
+        async pull(controller) {
+          packets ??= readRecording(path);
+          const next = await packets.next();
+          if (next.done) {
+            controller.close();
+            return;
+          }
+
+          const { time, bytes } = next.value;
+          const delay = (time - (previousTime ?? time)) / speed;
+          previousTime = time;
+          if (delay > 0) {
+            await setTimeout(delay);
+          }
+          controller.enqueue(bytes);
+        },
+        async cancel() {
+          await packets?.return(undefined);
+        },
+      },
+      queuingStrategy,
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import type { ClientBase } from "pg";
+import { beforeEach, expect, test } from "vitest";
+import { ReplicationAdmin } from "./ReplicationAdmin.js";
+
+let queries: { sql: string; params: unknown[] }[];
+
+const client = {
+  async query(sql: string, params: unknown[] = []) {
+    queries.push({ sql, params });
+    return { rows: [{ slot_name: params[0], lsn: "0/10" }] };
+  },
+} as unknown as ClientBase;
+
+beforeEach(() => {
+  queries = [];
+});
+
+test.each([
+  [{}, "$1, 'pgoutput', $2", ["my_slot", false]],
+  [{ twoPhase: true }, "$1, 'pgoutput', $2, $3", ["my_slot", false, true]],
+  [
+    { failover: true },
+    "$1, 'pgoutput', $2, $3, $4",
+    ["my_slot", false, false, true],
+  ],
+])(
+  "only passes the optional arguments of slots when used %#",
+  async (options, args, params) => {
+    const admin = new ReplicationAdmin(client);
+
+    await expect(
+      admin.createReplicationSlot("my_slot", options),
+    ).resolves.toEqual({ slotName: "my_slot", lsn: "0/10" });
+    expect(queries).toEqual([
+      {
+        sql: `SELECT slot_name, lsn FROM pg_create_logical_replication_slot(${args})`,
+        params,
+      },
+    ]);
+  },
+);
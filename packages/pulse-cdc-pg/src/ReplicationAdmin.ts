@@ -0,0 +1,344 @@
+import pg, { type ClientBase } from "pg";
+
+export interface ReplicationSlot {
+  slotName: string;
+  plugin: string | null;
+  slotType: "logical" | "physical";
+  database: string | null;
+  temporary: boolean;
+  active: boolean;
+  activePid: number | null;
+  restartLsn: string | null;
+  confirmedFlushLsn: string | null;
+  /** Availability of the WAL reserved by the slot. Available in PG13+. */
+  walStatus: "reserved" | "extended" | "unreserved" | "lost" | null;
+  /** Bytes of WAL that can be written before the slot is lost. Available in PG13+. */
+  safeWalSize: number | null;
+  twoPhase: boolean;
+  failover: boolean;
+  /** Bytes of WAL retained by the slot since `restartLsn`. */
+  retainedWalBytes: number | null;
+}
+
+export interface CreateReplicationSlotOptions {
+  /**
+   * Sync the slot to standby servers to allow logical replication to resume
+   * after failover. Requires PostgreSQL 17 or later.
+   */
+  failover?: boolean;
+  /**
+   * Drop the slot automatically when the current session ends or on error.
+   */
+  temporary?: boolean;
+  /** Enable decoding of prepared transactions. */
+  twoPhase?: boolean;
+}
+
+export type PublicationOperation = "insert" | "update" | "delete" | "truncate";
+
+export interface PublicationTable {
+  /** Schema of the table. Defaults to the first schema in the search path. */
+  schema?: string;
+  name: string;
+  /** Columns to publish. Defaults to all columns. Requires PG15+. */
+  columns?: string[];
+  /**
+   * SQL expression used to filter published rows. This is not escaped and
+   * must not contain untrusted input. Requires PG15+.
+   */
+  where?: string;
+}
+
+export type PublicationTarget =
+  | { allTables: true }
+  | {
+      tables?: (string | PublicationTable)[];
+      /** Schemas to publish all tables of. Requires PG15+. */
+      schemas?: string[];
+    };
+
+export interface CreatePublicationOptions {
+  /**
+   * Operations to publish.
+   *
+   * @default ["insert", "update", "delete", "truncate"]
+   */
+  publish?: PublicationOperation[];
+  /** Publish changes to partitions using the partition root's identity. */
+  publishViaPartitionRoot?: boolean;
+}
+
+interface ReplicationSlotRow {
+  slot_name: string;
+  plugin: string | null;
+  slot_type: "logical" | "physical";
+  database: string | null;
+  temporary: boolean;
+  active: boolean;
+  active_pid: number | null;
+  restart_lsn: string | null;
+  confirmed_flush_lsn: string | null;
+  wal_status?: ReplicationSlot["walStatus"];
+  safe_wal_size?: string | null;
+  two_phase?: boolean;
+  failover?: boolean;
+  retained_wal_bytes: string | null;
+}
+
+const SELECT_REPLICATION_SLOTS = `
+  SELECT *, pg_wal_lsn_diff(
+    CASE WHEN pg_is_in_recovery()
+      THEN pg_last_wal_receive_lsn()
+      ELSE pg_current_wal_lsn()
+    END,
+    restart_lsn
+  ) AS retained_wal_bytes
+  FROM pg_replication_slots
+`;
+
+function toReplicationSlot(row: ReplicationSlotRow): ReplicationSlot {
+  // select * is used for compatibility with older versions, so columns
+  // from newer versions may not be present
+  return {
+    slotName: row.slot_name,
+    plugin: row.plugin,
+    slotType: row.slot_type,
+    database: row.database,
+    temporary: row.temporary,
+    active: row.active,
+    activePid: row.active_pid,
+    restartLsn: row.restart_lsn,
+    confirmedFlushLsn: row.confirmed_flush_lsn,
+    walStatus: row.wal_status ?? null,
+    safeWalSize: row.safe_wal_size == null ? null : Number(row.safe_wal_size),
+    twoPhase: row.two_phase ?? false,
+    failover: row.failover ?? false,
+    retainedWalBytes:
+      row.retained_wal_bytes == null ? null : Number(row.retained_wal_bytes),
+  };
+}
+
+function tableName(table: string | PublicationTable) {
+  const { schema, name } =
+    typeof table === "string" ? { schema: undefined, name: table } : table;
+  return schema === undefined
+    ? pg.escapeIdentifier(name)
+    : `${pg.escapeIdentifier(schema)}.${pg.escapeIdentifier(name)}`;
+}
+
+function publicationObjects(
+  target: Exclude<PublicationTarget, { allTables: true }>,
+  { filters }: { filters: boolean },
+) {
+  const tables = (target.tables ?? []).map((table) => {
+    let sql = `TABLE ${tableName(table)}`;
+    if (filters && typeof table !== "string") {
+      if (table.columns) {
+        sql += ` (${table.columns.map((x) => pg.escapeIdentifier(x)).join(", ")})`;
+      }
+      if (table.where) {
+        sql += ` WHERE (${table.where})`;
+      }
+    }
+    return sql;
+  });
+  const schemas = (target.schemas ?? []).map(
+    (schema) => `TABLES IN SCHEMA ${pg.escapeIdentifier(schema)}`,
+  );
+  return [...tables, ...schemas].join(", ");
+}
+
+/**
+ * Utility for managing logical replication slots and publications over a
+ * regular (non-replication) connection. Object names are always quoted.
+ *
+ * @see {@link https://www.postgresql.org/docs/current/logical-replication.html PostgreSQL docs}
+ */
+export class ReplicationAdmin {
+  readonly #client: ClientBase;
+
+  constructor(client: ClientBase) {
+    this.#client = client;
+  }
+
+  /**
+   * Adds, sets, or drops the tables and schemas of a publication. Column
+   * lists and row filters are ignored when dropping.
+   */
+  async alterPublication(
+    name: string,
+    action: "add" | "set" | "drop",
+    target: Exclude<PublicationTarget, { allTables: true }>,
+  ) {
+    const objects = publicationObjects(target, { filters: action !== "drop" });
+    await this.#client.query(
+      `ALTER PUBLICATION ${pg.escapeIdentifier(name)} ${action.toUpperCase()} ${objects}`,
+    );
+  }
+
+  async createPublication(
+    name: string,
+    target: PublicationTarget,
+    options: CreatePublicationOptions = {},
+  ) {
+    let sql = `CREATE PUBLICATION ${pg.escapeIdentifier(name)}`;
+
+    if ("allTables" in target) {
+      sql += " FOR ALL TABLES";
+    } else if (target.tables?.length || target.schemas?.length) {
+      sql += ` FOR ${publicationObjects(target, { filters: true })}`;
+    }
+
+    const params = [];
+    if (options.publish) {
+      params.push(`publish = ${pg.escapeLiteral(options.publish.join(", "))}`);
+    }
+    if (options.publishViaPartitionRoot !== undefined) {
+      params.push(
+        `publish_via_partition_root = ${options.publishViaPartitionRoot}`,
+      );
+    }
+    if (params.length > 0) {
+      sql += ` WITH (${params.join(", ")})`;
+    }
+
+    await this.#client.query(sql);
+  }
+
+  /**
+   * Creates a replication origin, which tags the changes of the sessions that
+   * set it up with `setupReplicationOriginSession()`.
+   *
+   * @returns The OID of the origin.
+   */
+  async createReplicationOrigin(name: string) {
+    const result = await this.#client.query<{ oid: number }>(
+      `SELECT pg_replication_origin_create($1) AS oid`,
+      [name],
+    );
+    return result.rows[0]!.oid;
+  }
+
+  /**
+   * Creates a logical replication slot using the pgoutput plugin.
+   *
+   * @returns The name of the slot and the LSN at which the slot became
+   * consistent.
+   */
+  async createReplicationSlot(
+    name: string,
+    options: CreateReplicationSlotOptions = {},
+  ) {
+    const { failover = false, temporary = false, twoPhase = false } = options;
+    // optional arguments are only passed when used to support older versions,
+    // since two_phase was added in PG14 and failover in PG17
+    const params: unknown[] = [name, temporary];
+    if (twoPhase || failover) {
+      params.push(twoPhase);
+    }
+    if (failover) {
+      params.push(failover);
+    }
+    const args = params.map((_, i) => `$${i + 1}`);
+    args.splice(1, 0, "'pgoutput'");
+    const result = await this.#client.query<{
+      slot_name: string;
+      lsn: string;
+    }>(
+      `SELECT slot_name, lsn FROM pg_create_logical_replication_slot(${args.join(", ")})`,
+      params,
+    );
+    const row = result.rows[0]!;
+    return { slotName: row.slot_name, lsn: row.lsn };
+  }
+
+  async dropPublication(name: string, { ifExists = false } = {}) {
+    await this.#client.query(
+      `DROP PUBLICATION ${ifExists ? "IF EXISTS " : ""}${pg.escapeIdentifier(name)}`,
+    );
+  }
+
+  /**
+   * Drops a replication origin. The origin must not be set up by any session.
+   */
+  async dropReplicationOrigin(name: string, { ifExists = false } = {}) {
+    if (ifExists) {
+      await this.#client.query(
+        `SELECT pg_replication_origin_drop(roname) FROM pg_replication_origin WHERE roname = $1`,
+        [name],
+      );
+    } else {
+      await this.#client.query(`SELECT pg_replication_origin_drop($1)`, [name]);
+    }
+  }
+
+  /**
+   * Drops a replication slot. The slot must not be active.
+   */
+  async dropReplicationSlot(name: string, { ifExists = false } = {}) {
+    if (ifExists) {
+      await this.#client.query(
+        `SELECT pg_drop_replication_slot(slot_name) FROM pg_replication_slots WHERE slot_name = $1`,
+        [name],
+      );
+    } else {
+      await this.#client.query(`SELECT pg_drop_replication_slot($1)`, [name]);
+    }
+  }
+
+  /**
+   * Lists the tables published by a publication, including tables published
+   * by `FOR ALL TABLES` and `FOR TABLES IN SCHEMA`.
+   */
+  async getPublicationTables(name: string) {
+    const result = await this.#client.query<{
+      schemaname: string;
+      tablename: string;
+    }>(
+      `SELECT schemaname, tablename FROM pg_publication_tables WHERE pubname = $1 ORDER BY schemaname, tablename`,
+      [name],
+    );
+    return result.rows.map((row) => ({
+      schema: row.schemaname,
+      name: row.tablename,
+    }));
+  }
+
+  async getReplicationSlot(name: string) {
+    const result = await this.#client.query<ReplicationSlotRow>(
+      `${SELECT_REPLICATION_SLOTS} WHERE slot_name = $1`,
+      [name],
+    );
+    const row = result.rows.at(0);
+    return row ? toReplicationSlot(row) : null;
+  }
+
+  async listReplicationSlots() {
+    const result = await this.#client.query<ReplicationSlotRow>(
+      `${SELECT_REPLICATION_SLOTS} ORDER BY slot_name`,
+    );
+    return result.rows.map(toReplicationSlot);
+  }
+
+  /**
+   * Resets the replication origin of the session set up by
+   * `setupReplicationOriginSession()`.
+   */
+  async resetReplicationOriginSession() {
+    await this.#client.query(`SELECT pg_replication_origin_session_reset()`);
+  }
+
+  /**
+   * Sets up a replication origin for the session of the client, so that the
+   * changes it writes are tagged with the origin. Subscribers can then skip
+   * these changes with the `origin` option of `LogicalReplicationStream` or
+   * with `OriginFilterStream`, such as to prevent loops in bidirectional
+   * replication. The origin applies to the connection, so pooled clients
+   * should reset it before they are released.
+   */
+  async setupReplicationOriginSession(name: string) {
+    await this.#client.query(`SELECT pg_replication_origin_session_setup($1)`, [
+      name,
+    ]);
+  }
+}
@@ -0,0 +1,215 @@
+import { afterEach, beforeEach, expect, test, vi } from "vitest";
+import { FakeReplicationServer } from "./FakeReplicationServer.js";
+import { LogicalReplicationStream } from "./LogicalReplicationStream.js";
+import { Lsn } from "./Lsn.js";
+import type { PgoutputMessages } from "./messages.js";
+import { PgOutputDecoderStream } from "./PgoutputDecoderStream.js";
+import { PgoutputEncoder } from "./PgoutputEncoder.js";
+import { ReplicationMetrics, type MetricsMeter } from "./ReplicationMetrics.js";
+import { WalMessageEncoder } from "./WalMessageEncoder.js";
+import { relation } from "../test/test-utils.js";
+
+const users = relation("users", { oid: 16384 });
+const posts = relation("posts", { oid: 16385 });
+const now = new Date("2024-01-01T00:01:00Z");
+const systemTime = new Date("2024-01-01T00:00:58Z");
+
+beforeEach(() => {
+  vi.useFakeTimers({ now, toFake: ["Date"] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+async function decode(
+  metrics: ReplicationMetrics,
+  messages: PgoutputMessages[],
+) {
+  const encoder = new WalMessageEncoder(new PgoutputEncoder());
+  const stream = new PgOutputDecoderStream({ metrics });
+  const writer = stream.writable.getWriter();
+  const reader = stream.readable.getReader();
+  for (const [i, message] of messages.entries()) {
+    const lsn = `0/${((i + 1) * 16).toString(16)}`;
+    void writer.write(
+      encoder.encode({
+        type: "waldata",
+        currentLsn: lsn,
+        messageLsn: lsn,
+        systemTime,
+        message,
+      }),
+    );
+    await reader.read();
+  }
+}
+
+test("records decoded messages", async () => {
+  const metrics = new ReplicationMetrics();
+  metrics.recordPacket(1000);
+  metrics.recordAcknowledgement("0/20");
+  metrics.recordReconnect();
+
+  await decode(metrics, [
+    { tag: "begin", commitLsn: "0/60", commitTime: systemTime, xid: 7 },
+    users,
+    posts,
+    { tag: "insert", relation: users, new: {} },
+    { tag: "insert", relation: users, new: {} },
+    {
+      tag: "truncate",
+      cascade: false,
+      restartIdentity: false,
+      relations: [users, posts],
+    },
+    {
+      tag: "commit",
+      flags: 0,
+      commitLsn: "0/60",
+      commitEndLsn: "0/70",
+      commitTime: systemTime,
+    },
+  ]);
+
+  const snapshot = metrics.snapshot();
+  expect(snapshot).toMatchObject({
+    serverLsn: Lsn.parse("0/70"),
+    acknowledgedLsn: Lsn.parse("0/20"),
+    lagBytes: 0x50,
+    lagSeconds: 2,
+    messages: 7,
+    bytes: 1000,
+    messagesPerSecond: 7 / 60,
+    bytesPerSecond: 1000 / 60,
+    tables: {
+      "public.users": { delete: 0, insert: 2, truncate: 1, update: 0 },
+      "public.posts": { delete: 0, insert: 0, truncate: 1, update: 0 },
+    },
+    transactions: { count: 1, changes: 3, maxChanges: 3 },
+    reconnects: 1,
+  });
+  expect(snapshot.decodeTime.average).toBeLessThanOrEqual(
+    snapshot.decodeTime.max,
+  );
+
+  // rates only include the time window
+  vi.setSystemTime(now.getTime() + 61000);
+  expect(metrics.snapshot()).toMatchObject({
+    messages: 7,
+    messagesPerSecond: 0,
+    bytesPerSecond: 0,
+  });
+});
+
+test("records the size of streamed transactions", async () => {
+  const metrics = new ReplicationMetrics();
+
+  await decode(metrics, [
+    users,
+    { tag: "stream_start", xid: 7, firstSegment: true },
+    { tag: "insert", xid: 7, relation: users, new: {} },
+    { tag: "stream_stop" },
+    { tag: "stream_start", xid: 8, firstSegment: true },
+    { tag: "insert", xid: 8, relation: users, new: {} },
+    { tag: "stream_stop" },
+    { tag: "stream_start", xid: 7, firstSegment: false },
+    { tag: "insert", xid: 7, relation: users, new: {} },
+    { tag: "stream_stop" },
+    { tag: "stream_abort", xid: 8, subXid: 8 },
+    {
+      tag: "stream_commit",
+      xid: 7,
+      flags: 0,
+      commitLsn: "0/60",
+      commitEndLsn: "0/70",
+      commitTime: systemTime,
+    },
+  ]);
+
+  expect(metrics.snapshot().transactions).toEqual({
+    count: 1,
+    changes: 2,
+    maxChanges: 2,
+  });
+});
+
+test("reports metrics to a meter", async () => {
+  const histograms = new Map<string, number[]>();
+  const callbacks = new Map<string, () => unknown[]>();
+  const observable = (name: string) => ({
+    addCallback(
+      callback: Parameters<
+        ReturnType<MetricsMeter["createObservableGauge"]>["addCallback"]
+      >[0],
+    ) {
+      callbacks.set(name, () => {
+        const values: unknown[] = [];
+        callback({ observe: (...args) => values.push(args) });
+        return values;
+      });
+    },
+  });
+  const meter: MetricsMeter = {
+    createHistogram(name) {
+      const values: number[] = [];
+      histograms.set(name, values);
+      return { record: (value) => void values.push(value) };
+    },
+    createObservableCounter: observable,
+    createObservableGauge: observable,
+  };
+  const metrics = new ReplicationMetrics({ meter });
+  metrics.recordAcknowledgement("0/10");
+
+  await decode(metrics, [
+    users,
+    { tag: "begin", commitLsn: "0/60", commitTime: systemTime, xid: 7 },
+    { tag: "insert", relation: users, new: {} },
+    {
+      tag: "commit",
+      flags: 0,
+      commitLsn: "0/60",
+      commitEndLsn: "0/70",
+      commitTime: systemTime,
+    },
+  ]);
+
+  expect(histograms.get("pulse.replication.transaction.changes")).toEqual([1]);
+  expect(histograms.get("pulse.replication.decode.duration")).toHaveLength(4);
+  expect(callbacks.get("pulse.replication.lag")!()).toEqual([[0x30]]);
+  expect(callbacks.get("pulse.replication.lag.time")!()).toEqual([[2]]);
+  expect(callbacks.get("pulse.replication.messages")!()).toEqual([[4]]);
+  expect(callbacks.get("pulse.replication.changes")!()).toEqual([
+    [0, { table: "public.users", operation: "delete" }],
+    [1, { table: "public.users", operation: "insert" }],
+    [0, { table: "public.users", operation: "truncate" }],
+    [0, { table: "public.users", operation: "update" }],
+  ]);
+});
+
+test("records packets and acknowledgements of a replication stream", async () => {
+  vi.useRealTimers();
+  const server = await new FakeReplicationServer().listen();
+  const metrics = new ReplicationMetrics();
+  const replication = new LogicalReplicationStream({
+    clientConfig: server.clientConfig,
+    metrics,
+    protocolVersion: 1,
+    publicationName: "my_publication",
+    slotName: "my_slot",
+  });
+  try {
+    server.sendKeepalive();
+    const { value } = await replication.getReader().read();
+    await replication.acknowledge("0/100");
+
+    expect(metrics.snapshot()).toMatchObject({
+      acknowledgedLsn: Lsn.parse("0/100"),
+      bytes: value!.length,
+    });
+  } finally {
+    await replication.dispose();
+    await server.close();
+  }
+});
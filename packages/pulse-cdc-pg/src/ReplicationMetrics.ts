@@ -0,0 +1,382 @@
+import { Lsn, type LsnLike } from "./Lsn.js";
+import type { PgoutputRelation } from "./messages.js";
+import type { WalPgoutputMessage } from "./PgoutputDecoderStream.js";
+
+type WalData = Extract<WalPgoutputMessage, { type: "waldata" }>;
+
+type Attributes = Record<string, string>;
+
+interface InstrumentOptions {
+  description?: string;
+  unit?: string;
+}
+
+interface Histogram {
+  record(value: number, attributes?: Attributes): void;
+}
+
+interface Observable {
+  addCallback(
+    callback: (result: {
+      observe(value: number, attributes?: Attributes): void;
+    }) => void,
+  ): void;
+}
+
+/** The subset of the OpenTelemetry `Meter` used to report metrics. */
+export interface MetricsMeter {
+  createHistogram(name: string, options?: InstrumentOptions): Histogram;
+  createObservableCounter(
+    name: string,
+    options?: InstrumentOptions,
+  ): Observable;
+  createObservableGauge(name: string, options?: InstrumentOptions): Observable;
+}
+
+export interface ReplicationMetricsInit {
+  /**
+   * OpenTelemetry meter, such as `metrics.getMeter("pulse")` of
+   * `@opentelemetry/api`, to report the metrics with. Instruments are named
+   * `pulse.replication.*`.
+   */
+  meter?: MetricsMeter;
+  /**
+   * Time window in milliseconds over which rates are computed.
+   *
+   * @default 60000
+   */
+  window?: number;
+}
+
+export type TableOperation = "delete" | "insert" | "truncate" | "update";
+
+export interface ReplicationMetricsSnapshot {
+  /** The last WAL end position reported by the server. */
+  serverLsn: Lsn | null;
+  /** The last LSN acknowledged by the application. */
+  acknowledgedLsn: Lsn | null;
+  /**
+   * Number of WAL bytes from the acknowledged LSN to the server position, or
+   * `null` until both are known.
+   */
+  lagBytes: number | null;
+  /**
+   * Seconds since the server sent the last decoded message, or `null` until a
+   * message was decoded.
+   */
+  lagSeconds: number | null;
+  /** Total number of decoded messages, including keepalives. */
+  messages: number;
+  /** Total number of bytes received. */
+  bytes: number;
+  /** Decoded messages per second over the time window. */
+  messagesPerSecond: number;
+  /** Bytes received per second over the time window. */
+  bytesPerSecond: number;
+  /** Number of changes by qualified table name, such as `public.users`. */
+  tables: Record<string, Record<TableOperation, number>>;
+  transactions: {
+    /** Number of completed transactions. */
+    count: number;
+    /** Total number of changes in completed transactions. */
+    changes: number;
+    /** Number of changes of the largest transaction. */
+    maxChanges: number;
+  };
+  decodeTime: {
+    /** Average time in milliseconds to decode a message. */
+    average: number;
+    /** Maximum time in milliseconds to decode a message. */
+    max: number;
+  };
+  /** Number of reconnect attempts. */
+  reconnects: number;
+}
+
+interface Bucket {
+  /** Start of the bucket in seconds since the epoch. */
+  second: number;
+  messages: number;
+  bytes: number;
+}
+
+function tableName(relation: PgoutputRelation) {
+  return `${relation.schema}.${relation.name}`;
+}
+
+/**
+ * Collects metrics of a replication stream, such as lag and throughput. Pass
+ * the same instance to the `metrics` option of `LogicalReplicationStream`,
+ * which records received bytes, acknowledgements and reconnects, and of
+ * `PgOutputDecoderStream`, which records decoded messages.
+ *
+ * Metrics are read with `snapshot()`, or reported to OpenTelemetry with the
+ * `meter` option.
+ *
+ * @example
+ * ```ts
+ * const metrics = new ReplicationMetrics();
+ * const replication = new LogicalReplicationStream({ ...init, metrics });
+ * const messages = replication.pipeThrough(
+ *   new PgOutputDecoderStream({ metrics }),
+ * );
+ *
+ * setInterval(() => console.log(metrics.snapshot().lagBytes), 10000);
+ * ```
+ */
+export class ReplicationMetrics {
+  #acknowledgedLsn: Lsn | null = null;
+  #buckets: Bucket[] = [];
+  #bytes = 0;
+  #decodeCount = 0;
+  #decodeMax = 0;
+  #decodeTotal = 0;
+  #lastSystemTime: Date | null = null;
+  #messages = 0;
+  #reconnects = 0;
+  #serverLsn: Lsn | null = null;
+  readonly #tables = new Map<string, Record<TableOperation, number>>();
+  #transactionCount = 0;
+  #transactionChanges = 0;
+  #transactionMax = 0;
+  /** Number of changes of open transactions by transaction ID. */
+  readonly #transactions = new Map<number, number>();
+  /** The ID of the transaction that changes are part of. */
+  #xid: number | null = null;
+  readonly #window: number;
+
+  readonly #decodeHistogram: Histogram | null = null;
+  readonly #transactionHistogram: Histogram | null = null;
+
+  constructor(init: ReplicationMetricsInit = {}) {
+    const { meter, window = 60000 } = init;
+    this.#window = window;
+    if (meter) {
+      this.#decodeHistogram = meter.createHistogram(
+        "pulse.replication.decode.duration",
+        { description: "Time to decode a message", unit: "ms" },
+      );
+      this.#transactionHistogram = meter.createHistogram(
+        "pulse.replication.transaction.changes",
+        { description: "Number of changes in a transaction" },
+      );
+      this.#observe(meter);
+    }
+  }
+
+  /** Records a packet received from the server. */
+  recordPacket(bytes: number) {
+    this.#bytes += bytes;
+    this.#bucket().bytes += bytes;
+  }
+
+  /** Records an LSN acknowledged by the application. */
+  recordAcknowledgement(lsn: LsnLike) {
+    this.#acknowledgedLsn = Lsn.max(this.#acknowledgedLsn ?? Lsn.ZERO, lsn);
+  }
+
+  /** Records a reconnect attempt. */
+  recordReconnect() {
+    this.#reconnects++;
+  }
+
+  /** Records a decoded message and the time in milliseconds to decode it. */
+  recordMessage(wal: WalPgoutputMessage, duration: number) {
+    this.#messages++;
+    this.#bucket().messages++;
+    this.#decodeCount++;
+    this.#decodeTotal += duration;
+    this.#decodeMax = Math.max(this.#decodeMax, duration);
+    this.#decodeHistogram?.record(duration);
+
+    this.#serverLsn = Lsn.max(this.#serverLsn ?? Lsn.ZERO, wal.currentLsn);
+    this.#lastSystemTime = wal.systemTime;
+    if (wal.type === "waldata") {
+      this.#recordChange(wal.message);
+    }
+  }
+
+  /** Returns the current values of the metrics. */
+  snapshot(): ReplicationMetricsSnapshot {
+    const now = Date.now();
+    const since = Math.floor((now - this.#window) / 1000);
+    this.#buckets = this.#buckets.filter((x) => x.second > since);
+    const seconds = this.#window / 1000;
+
+    return {
+      serverLsn: this.#serverLsn,
+      acknowledgedLsn: this.#acknowledgedLsn,
+      lagBytes:
+        this.#serverLsn && this.#acknowledgedLsn
+          ? Math.max(0, Number(this.#serverLsn.distance(this.#acknowledgedLsn)))
+          : null,
+      lagSeconds: this.#lastSystemTime
+        ? Math.max(0, (now - this.#lastSystemTime.getTime()) / 1000)
+        : null,
+      messages: this.#messages,
+      bytes: this.#bytes,
+      messagesPerSecond:
+        this.#buckets.reduce((sum, x) => sum + x.messages, 0) / seconds,
+      bytesPerSecond:
+        this.#buckets.reduce((sum, x) => sum + x.bytes, 0) / seconds,
+      tables: Object.fromEntries(
+        [...this.#tables].map(([name, counts]) => [name, { ...counts }]),
+      ),
+      transactions: {
+        count: this.#transactionCount,
+        changes: this.#transactionChanges,
+        maxChanges: this.#transactionMax,
+      },
+      decodeTime: {
+        average: this.#decodeCount && this.#decodeTotal / this.#decodeCount,
+        max: this.#decodeMax,
+      },
+      reconnects: this.#reconnects,
+    };
+  }
+
+  #bucket() {
+    const second = Math.floor(Date.now() / 1000);
+    let bucket = this.#buckets.at(-1);
+    if (bucket?.second !== second) {
+      bucket = { second, messages: 0, bytes: 0 };
+      this.#buckets.push(bucket);
+      // drop buckets outside of the window without waiting for a snapshot
+      const since = second - Math.ceil(this.#window / 1000);
+      while (this.#buckets[0]!.second <= since) {
+        this.#buckets.shift();
+      }
+    }
+    return bucket;
+  }
+
+  #countTable(relation: PgoutputRelation, operation: TableOperation) {
+    const name = tableName(relation);
+    let counts = this.#tables.get(name);
+    if (!counts) {
+      counts = { delete: 0, insert: 0, truncate: 0, update: 0 };
+      this.#tables.set(name, counts);
+    }
+    counts[operation]++;
+  }
+
+  #endTransaction(xid: number | null, committed: boolean) {
+    if (xid === null) {
+      return;
+    }
+    const changes = this.#transactions.get(xid);
+    this.#transactions.delete(xid);
+    if (changes === undefined || !committed) {
+      return;
+    }
+    this.#transactionCount++;
+    this.#transactionChanges += changes;
+    this.#transactionMax = Math.max(this.#transactionMax, changes);
+    this.#transactionHistogram?.record(changes);
+  }
+
+  #observe(meter: MetricsMeter) {
+    meter
+      .createObservableGauge("pulse.replication.lag", {
+        description: "WAL bytes from the acknowledged LSN to the server",
+        unit: "By",
+      })
+      .addCallback((result) => {
+        const { lagBytes } = this.snapshot();
+        if (lagBytes !== null) {
+          result.observe(lagBytes);
+        }
+      });
+    meter
+      .createObservableGauge("pulse.replication.lag.time", {
+        description: "Time since the server sent the last decoded message",
+        unit: "s",
+      })
+      .addCallback((result) => {
+        const { lagSeconds } = this.snapshot();
+        if (lagSeconds !== null) {
+          result.observe(lagSeconds);
+        }
+      });
+    meter
+      .createObservableCounter("pulse.replication.messages", {
+        description: "Number of decoded messages",
+      })
+      .addCallback((result) => result.observe(this.#messages));
+    meter
+      .createObservableCounter("pulse.replication.bytes", {
+        description: "Number of bytes received",
+        unit: "By",
+      })
+      .addCallback((result) => result.observe(this.#bytes));
+    meter
+      .createObservableCounter("pulse.replication.reconnects", {
+        description: "Number of reconnect attempts",
+      })
+      .addCallback((result) => result.observe(this.#reconnects));
+    meter
+      .createObservableCounter("pulse.replication.changes", {
+        description: "Number of changes by table and operation",
+      })
+      .addCallback((result) => {
+        for (const [table, counts] of this.#tables) {
+          for (const [operation, count] of Object.entries(counts)) {
+            result.observe(count, { table, operation });
+          }
+        }
+      });
+  }
+
+  #recordChange(message: WalData["message"]) {
+    const count = () => {
+      const xid = this.#xid;
+      if (xid !== null) {
+        this.#transactions.set(xid, (this.#transactions.get(xid) ?? 0) + 1);
+      }
+    };
+
+    switch (message.tag) {
+      case "begin":
+      case "begin_prepare":
+        this.#xid = message.xid;
+        this.#transactions.set(message.xid, 0);
+        break;
+      case "commit":
+      case "prepare":
+        this.#endTransaction(this.#xid, true);
+        this.#xid = null;
+        break;
+      case "stream_start":
+        this.#xid = message.xid;
+        if (!this.#transactions.has(message.xid)) {
+          this.#transactions.set(message.xid, 0);
+        }
+        break;
+      case "stream_stop":
+        this.#xid = null;
+        break;
+      case "stream_commit":
+      case "stream_prepare":
+        this.#endTransaction(message.xid, true);
+        break;
+      case "stream_abort":
+        // changes of aborted subtransactions are still counted
+        if (message.xid === message.subXid) {
+          this.#endTransaction(message.xid, false);
+        }
+        break;
+      case "delete":
+      case "insert":
+      case "update":
+        this.#countTable(message.relation, message.tag);
+        count();
+        break;
+      case "truncate":
+        for (const relation of message.relations) {
+          this.#countTable(relation, "truncate");
+        }
+        count();
+        break;
+    }
+  }
+}
@@ -0,0 +1,59 @@
+import { open, type FileHandle } from "node:fs/promises";
+
+export interface ReplicationRecorderInit {
+  /** Path of the recording file, which is replaced if it exists. */
+  path: string;
+}
+
+/** Identifies recording files, followed by the format version. */
+export const RECORDING_MAGIC = Buffer.from("PULSEREC");
+export const RECORDING_VERSION = 1;
+
+/** Size of the length and timestamp preceding each recorded packet. */
+export const RECORD_HEADER_SIZE = 12;
+
+/**
+ * Implementation of `TransformStream` that records the `Uint8Array` packets
+ * emitted by `LogicalReplicationStream` to a file, along with the time each
+ * packet was received, and passes the packets through unchanged. Recordings
+ * are replayed by `ReplayStream`.
+ *
+ * The file starts with `PULSEREC` and a version byte. Each packet is stored as
+ * its length (uint32), the receive time in milliseconds since the Unix epoch
+ * (float64), then the packet bytes, all big-endian. The file is closed when
+ * the stream closes, is cancelled or is aborted.
+ */
+export class ReplicationRecorder extends TransformStream<
+  Uint8Array,
+  Uint8Array
+> {
+  constructor(init: ReplicationRecorderInit) {
+    let handle: FileHandle;
+    // the cancel callback is called by Node.js when the readable side is
+    // cancelled or the writable side is aborted, but is missing in the types
+    const transformer: Transformer<Uint8Array, Uint8Array> & {
+      cancel(): Promise<void>;
+    } = {
+      async start() {
+        handle = await open(init.path, "w");
+        await handle.write(
+          Buffer.concat([RECORDING_MAGIC, Buffer.of(RECORDING_VERSION)]),
+        );
+      },
+      async transform(bytes, controller) {
+        const header = Buffer.alloc(RECORD_HEADER_SIZE);
+        header.writeUInt32BE(bytes.length, 0);
+        header.writeDoubleBE(Date.now(), 4);
+        await handle.write(Buffer.concat([header, bytes]));
+        controller.enqueue(bytes);
+      },
+      async flush() {
+        await handle.close();
+      },
+      async cancel() {
+        await handle.close();
+      },
+    };
+    super(transformer);
+  }
+}
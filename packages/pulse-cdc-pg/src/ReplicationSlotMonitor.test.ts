@@ -0,0 +1,208 @@
+import type { ClientBase } from "pg";
+import { afterEach, beforeEach, expect, test, vi } from "vitest";
+import {
+  ReplicationSlotMonitor,
+  type ReplicationSlotMonitorInit,
+} from "./ReplicationSlotMonitor.js";
+
+interface SlotRow {
+  slot_name: string;
+  slot_type: string;
+  database: string | null;
+  active: boolean;
+  wal_status: string;
+  safe_wal_size: string | null;
+  retained_wal_bytes: string;
+}
+
+function slot(name: string, row: Partial<SlotRow> = {}): SlotRow {
+  return {
+    slot_name: name,
+    slot_type: "logical",
+    database: "pulse",
+    active: true,
+    wal_status: "reserved",
+    safe_wal_size: null,
+    retained_wal_bytes: "1024",
+    ...row,
+  };
+}
+
+let rows: SlotRow[];
+let dropped: string[];
+/** Names of slots that fail to drop. */
+let failing: string[];
+
+const client = {
+  async query(sql: string, params: string[] = []) {
+    if (sql.includes("current_database()")) {
+      return { rows: [{ name: "pulse" }] };
+    }
+    if (sql.includes("pg_drop_replication_slot")) {
+      if (failing.includes(params[0]!)) {
+        throw new Error(`cannot drop "${params[0]}"`);
+      }
+      dropped.push(params[0]!);
+      rows = rows.filter((x) => x.slot_name !== params[0]);
+      return { rows: [] };
+    }
+    return { rows };
+  },
+} as unknown as ClientBase;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  rows = [];
+  dropped = [];
+  failing = [];
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+function monitor(init: Omit<ReplicationSlotMonitorInit, "client"> = {}) {
+  const monitor = new ReplicationSlotMonitor({ client, ...init });
+  const warnings: string[] = [];
+  monitor.addEventListener("warning", ({ detail }) => {
+    warnings.push(`${detail.slot.slotName}: ${detail.reason}`);
+  });
+  return { monitor, warnings };
+}
+
+test("warns when slots exceed thresholds", async () => {
+  rows = [
+    slot("healthy"),
+    slot("retaining", { retained_wal_bytes: String(2 * 1024 ** 3) }),
+    slot("unsafe", { safe_wal_size: "100" }),
+    slot("unreserved", { wal_status: "unreserved" }),
+    slot("inactive", { active: false }),
+  ];
+  const { monitor: m, warnings } = monitor({
+    thresholds: { inactiveFor: 1000, safeWalSize: 1000 },
+  });
+
+  const slots = await m.check();
+  expect(slots.map((x) => x.slotName)).toEqual(rows.map((x) => x.slot_name));
+  expect(warnings).toEqual([
+    "retaining: retained_wal",
+    "unsafe: safe_wal_size",
+    "unreserved: wal_status",
+  ]);
+
+  warnings.length = 0;
+  vi.advanceTimersByTime(1001);
+  await m.check();
+  expect(warnings).toContain("inactive: inactive");
+});
+
+test("resets inactivity when a slot becomes active", async () => {
+  rows = [slot("flaky", { active: false })];
+  const { monitor: m, warnings } = monitor({
+    thresholds: { inactiveFor: 1000 },
+  });
+
+  await m.check();
+  vi.advanceTimersByTime(800);
+  rows = [slot("flaky")];
+  await m.check();
+  rows = [slot("flaky", { active: false })];
+  vi.advanceTimersByTime(800);
+  await m.check();
+
+  expect(warnings).toEqual([]);
+});
+
+test("only checks the named slots", async () => {
+  rows = [slot("mine"), slot("other")];
+  const { monitor: m } = monitor({ slotNames: ["mine"] });
+
+  const slots = await m.check();
+  expect(slots.map((x) => x.slotName)).toEqual(["mine"]);
+});
+
+test("drops abandoned slots by policy", async () => {
+  rows = [
+    slot("active"),
+    slot("lost", { active: false, wal_status: "lost" }),
+    slot("inactive", { active: false }),
+  ];
+  const { monitor: m } = monitor({ drop: { inactiveFor: 1000, lost: true } });
+  const onDropped = vi.fn();
+  m.addEventListener("dropped", onDropped);
+
+  await m.check();
+  expect(dropped).toEqual(["lost"]);
+
+  vi.advanceTimersByTime(1001);
+  const slots = await m.check();
+  expect(dropped).toEqual(["lost", "inactive"]);
+  expect(slots.map((x) => x.slotName)).toEqual(["active"]);
+  expect(onDropped.mock.calls.map(([x]) => x.detail.reason)).toEqual([
+    "the WAL of the slot was removed",
+    "the slot was inactive for 1001ms",
+  ]);
+});
+
+test("only drops logical slots of the current database", async () => {
+  rows = [
+    slot("physical", { active: false, slot_type: "physical", database: null }),
+    slot("other", { active: false, database: "other" }),
+    slot("mine", { active: false }),
+  ];
+  const { monitor: m } = monitor({ drop: { inactiveFor: 1000 } });
+
+  await m.check();
+  vi.advanceTimersByTime(1001);
+  const slots = await m.check();
+
+  expect(dropped).toEqual(["mine"]);
+  expect(slots.map((x) => x.slotName)).toEqual(["physical", "other"]);
+});
+
+test("reports slots that fail to drop and checks them", async () => {
+  rows = [
+    slot("failing", { active: false, wal_status: "lost" }),
+    slot("lost", { active: false, wal_status: "lost" }),
+  ];
+  failing = ["failing"];
+  const { monitor: m, warnings } = monitor({ drop: { lost: true } });
+  const onError = vi.fn();
+  m.addEventListener("error", onError);
+
+  const slots = await m.check();
+
+  expect(dropped).toEqual(["lost"]);
+  expect(slots.map((x) => x.slotName)).toEqual(["failing"]);
+  expect(warnings).toEqual(["failing: wal_status"]);
+  expect(onError.mock.calls[0]![0].detail).toEqual({
+    error: new Error('cannot drop "failing"'),
+  });
+});
+
+test("checks periodically once started", async () => {
+  rows = [slot("retaining", { retained_wal_bytes: String(2 * 1024 ** 3) })];
+  const { monitor: m, warnings } = monitor({ interval: 1000 });
+
+  m.start();
+  await vi.advanceTimersByTimeAsync(2500);
+  m.stop();
+  await vi.advanceTimersByTimeAsync(2000);
+
+  expect(warnings).toHaveLength(3);
+});
+
+test("emits errors of periodic checks", async () => {
+  const error = new Error("connection lost");
+  const m = new ReplicationSlotMonitor({
+    client: { query: () => Promise.reject(error) } as unknown as ClientBase,
+  });
+  const onError = vi.fn();
+  m.addEventListener("error", onError);
+
+  m.start();
+  await vi.advanceTimersByTimeAsync(0);
+  m.stop();
+
+  expect(onError.mock.calls[0]![0].detail).toEqual({ error });
+});
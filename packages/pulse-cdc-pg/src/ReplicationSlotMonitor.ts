@@ -0,0 +1,296 @@
+import type { ClientBase } from "pg";
+import { ReplicationAdmin, type ReplicationSlot } from "./ReplicationAdmin.js";
+
+export interface ReplicationSlotMonitorInit {
+  /**
+   * Client used to query the replication slots. This must be a regular
+   * (non-replication) connection.
+   */
+  client: ClientBase;
+  /**
+   * Interval in milliseconds between checks once started.
+   *
+   * @default 60000
+   */
+  interval?: number;
+  /** Names of the slots to monitor. Defaults to all slots. */
+  slotNames?: string[];
+  thresholds?: SlotThresholds;
+  /**
+   * Policy for dropping abandoned slots, as a last resort to prevent WAL
+   * retained by the slots from filling the disk. Only logical slots of the
+   * database of `client` are dropped. Dropped slots cannot be restored, so
+   * their consumers must start over from a new slot. Disabled by default.
+   */
+  drop?: SlotDropPolicy;
+}
+
+interface SlotThresholds {
+  /**
+   * Bytes of WAL retained by a slot above which a warning is emitted.
+   *
+   * @default 1073741824 (1 GiB)
+   */
+  retainedWalBytes?: number;
+  /**
+   * Bytes of WAL that can be written before a slot is lost below which a
+   * warning is emitted. Only reported by PG13+ when `max_slot_wal_keep_size`
+   * is set.
+   */
+  safeWalSize?: number;
+  /** Milliseconds a slot may be inactive before a warning is emitted. */
+  inactiveFor?: number;
+}
+
+interface SlotDropPolicy {
+  /** Drop slots that were inactive for longer than this many milliseconds. */
+  inactiveFor?: number;
+  /** Drop slots whose WAL was already removed, which cannot be used again. */
+  lost?: boolean;
+}
+
+export type SlotWarningReason =
+  | "inactive"
+  | "retained_wal"
+  | "safe_wal_size"
+  | "wal_status";
+
+export interface ReplicationSlotMonitorEventMap {
+  /** The slots were checked. */
+  check: CustomEvent<{ slots: ReplicationSlot[] }>;
+  /** A slot exceeded a threshold, emitted on each check while it does. */
+  warning: CustomEvent<{
+    slot: ReplicationSlot;
+    reason: SlotWarningReason;
+    message: string;
+  }>;
+  /** A slot was dropped by the drop policy. */
+  dropped: CustomEvent<{ slot: ReplicationSlot; reason: string }>;
+  /** A check started by the interval failed, or a slot failed to drop. */
+  error: CustomEvent<{ error: unknown }>;
+}
+
+/**
+ * Monitors the health of replication slots by polling `pg_replication_slots`,
+ * and emits warnings when a slot retains too much WAL.
+ *
+ * A slot retains all WAL after the LSN last acknowledged by its consumer, so a
+ * slow or abandoned consumer can fill the disk of the database. Warnings are
+ * emitted when the retained WAL or `safe_wal_size` cross the thresholds, when
+ * the `wal_status` of a slot is `unreserved` or `lost`, and when a slot is
+ * inactive for too long. With the `drop` policy, abandoned slots are dropped.
+ * Slots that fail to drop are reported by an `error` event and checked like
+ * other slots.
+ *
+ * Since PostgreSQL does not report how long a slot was inactive before PG17,
+ * inactivity is measured from the first check that found the slot inactive.
+ *
+ * @example
+ * ```ts
+ * const monitor = new ReplicationSlotMonitor({
+ *   client,
+ *   thresholds: { retainedWalBytes: 10 * 1024 ** 3 },
+ * });
+ * monitor.addEventListener("warning", (event) => {
+ *   console.warn(event.detail.message);
+ * });
+ * monitor.start();
+ * ```
+ */
+export class ReplicationSlotMonitor {
+  readonly #admin: ReplicationAdmin;
+  readonly #client: ClientBase;
+  /** Name of the database of the client, once queried for the drop policy. */
+  #database: string | undefined;
+  readonly #drop: SlotDropPolicy;
+  readonly #events = new EventTarget();
+  /** The time each slot was first found inactive. */
+  readonly #inactiveSince = new Map<string, number>();
+  readonly #interval: number;
+  readonly #slotNames: ReadonlySet<string> | null;
+  readonly #thresholds: SlotThresholds;
+  #timer: ReturnType<typeof setInterval> | undefined;
+
+  constructor(init: ReplicationSlotMonitorInit) {
+    const {
+      client,
+      drop = {},
+      interval = 60000,
+      slotNames,
+      thresholds = {},
+    } = init;
+    this.#admin = new ReplicationAdmin(client);
+    this.#client = client;
+    this.#drop = drop;
+    this.#interval = interval;
+    this.#slotNames = slotNames ? new Set(slotNames) : null;
+    this.#thresholds = { retainedWalBytes: 1024 ** 3, ...thresholds };
+  }
+
+  [Symbol.dispose]() {
+    this.stop();
+  }
+
+  /** Starts checking the slots periodically. */
+  start() {
+    if (this.#timer !== undefined) {
+      return;
+    }
+    const check = () =>
+      this.check().catch((error) => this.#dispatch("error", { error }));
+    void check();
+    this.#timer = setInterval(check, this.#interval);
+    this.#timer.unref();
+  }
+
+  stop() {
+    clearInterval(this.#timer);
+    this.#timer = undefined;
+  }
+
+  /**
+   * Checks the slots once, emitting warnings and dropping abandoned slots.
+   * Returns the slots that were checked, excluding dropped slots.
+   */
+  async check(): Promise<ReplicationSlot[]> {
+    const now = Date.now();
+    if (
+      this.#database === undefined &&
+      (this.#drop.lost || this.#drop.inactiveFor !== undefined)
+    ) {
+      const result = await this.#client.query<{ name: string }>(
+        `SELECT current_database() AS name`,
+      );
+      this.#database = result.rows[0]!.name;
+    }
+    const slots = (await this.#admin.listReplicationSlots()).filter(
+      (x) => !this.#slotNames || this.#slotNames.has(x.slotName),
+    );
+
+    for (const name of this.#inactiveSince.keys()) {
+      if (!slots.some((x) => x.slotName === name && !x.active)) {
+        this.#inactiveSince.delete(name);
+      }
+    }
+
+    const checked = [];
+    for (const slot of slots) {
+      if (!slot.active && !this.#inactiveSince.has(slot.slotName)) {
+        this.#inactiveSince.set(slot.slotName, now);
+      }
+      const inactiveFor = slot.active
+        ? 0
+        : now - this.#inactiveSince.get(slot.slotName)!;
+
+      const reason = this.#dropReason(slot, inactiveFor);
+      if (reason) {
+        try {
+          await this.#admin.dropReplicationSlot(slot.slotName, {
+            ifExists: true,
+          });
+          this.#inactiveSince.delete(slot.slotName);
+          this.#dispatch("dropped", { slot, reason });
+          continue;
+        } catch (error) {
+          // the slot is dropped again by the next check
+          this.#dispatch("error", { error });
+        }
+      }
+
+      this.#warn(slot, inactiveFor);
+      checked.push(slot);
+    }
+
+    this.#dispatch("check", { slots: checked });
+    return checked;
+  }
+
+  addEventListener<K extends keyof ReplicationSlotMonitorEventMap>(
+    type: K,
+    listener: (event: ReplicationSlotMonitorEventMap[K]) => void,
+    options?: AddEventListenerOptions | boolean,
+  ) {
+    this.#events.addEventListener(type, listener as EventListener, options);
+  }
+
+  removeEventListener<K extends keyof ReplicationSlotMonitorEventMap>(
+    type: K,
+    listener: (event: ReplicationSlotMonitorEventMap[K]) => void,
+    options?: EventListenerOptions | boolean,
+  ) {
+    this.#events.removeEventListener(type, listener as EventListener, options);
+  }
+
+  #dispatch<K extends keyof ReplicationSlotMonitorEventMap>(
+    type: K,
+    detail: ReplicationSlotMonitorEventMap[K]["detail"],
+  ) {
+    this.#events.dispatchEvent(new CustomEvent(type, { detail }));
+  }
+
+  #dropReason(slot: ReplicationSlot, inactiveFor: number) {
+    // active slots cannot be dropped, and other slots may belong to other
+    // applications
+    if (
+      slot.active ||
+      slot.slotType !== "logical" ||
+      slot.database !== this.#database
+    ) {
+      return null;
+    }
+    if (this.#drop.lost && slot.walStatus === "lost") {
+      return "the WAL of the slot was removed";
+    }
+    if (
+      this.#drop.inactiveFor !== undefined &&
+      inactiveFor > this.#drop.inactiveFor
+    ) {
+      return `the slot was inactive for ${inactiveFor}ms`;
+    }
+    return null;
+  }
+
+  #warn(slot: ReplicationSlot, inactiveFor: number) {
+    const { slotName } = slot;
+    const {
+      inactiveFor: maxInactive,
+      retainedWalBytes,
+      safeWalSize,
+    } = this.#thresholds;
+    const warn = (reason: SlotWarningReason, message: string) =>
+      this.#dispatch("warning", { slot, reason, message });
+
+    if (slot.walStatus === "unreserved" || slot.walStatus === "lost") {
+      warn(
+        "wal_status",
+        `replication slot "${slotName}" has wal_status ${slot.walStatus}`,
+      );
+    }
+    if (
+      retainedWalBytes !== undefined &&
+      slot.retainedWalBytes !== null &&
+      slot.retainedWalBytes > retainedWalBytes
+    ) {
+      warn(
+        "retained_wal",
+        `replication slot "${slotName}" retains ${slot.retainedWalBytes} bytes of WAL`,
+      );
+    }
+    if (
+      safeWalSize !== undefined &&
+      slot.safeWalSize !== null &&
+      slot.safeWalSize < safeWalSize
+    ) {
+      warn(
+        "safe_wal_size",
+        `replication slot "${slotName}" is lost after ${slot.safeWalSize} more bytes of WAL`,
+      );
+    }
+    if (maxInactive !== undefined && inactiveFor > maxInactive) {
+      warn(
+        "inactive",
+        `replication slot "${slotName}" was inactive for ${inactiveFor}ms`,
+      );
+    }
+  }
+}
@@ -0,0 +1,137 @@
+import { expect, test } from "vitest";
+import type { PgoutputRelation, RelationColumn } from "./messages.js";
+import type { WalPgoutputMessage } from "./PgoutputDecoderStream.js";
+import { diffRelations } from "./relationDiff.js";
+import {
+  SchemaChangeStream,
+  type SchemaChangeWalMessage,
+} from "./SchemaChangeStream.js";
+
+function column(
+  name: string,
+  typeOid = 25,
+  { flags = 0, typeMod = -1 } = {},
+): RelationColumn {
+  return {
+    name,
+    flags,
+    typeOid,
+    typeMod,
+    typeSchema: null,
+    typeName: null,
+    parser: String,
+  };
+}
+
+function relation(
+  columns: RelationColumn[],
+  init: Partial<PgoutputRelation> = {},
+): PgoutputRelation {
+  return {
+    tag: "relation",
+    oid: 16384,
+    schema: "public",
+    name: "users",
+    replicaIdentity: "default",
+    columns,
+    keyColumns: columns.filter((x) => x.flags & 1).map((x) => x.name),
+    version: 1,
+    ...init,
+  };
+}
+
+const id = column("id", 23, { flags: 1 });
+
+test("diffRelations returns null without changes", () => {
+  expect(
+    diffRelations(
+      relation([id, column("name")]),
+      relation([id, column("name")]),
+    ),
+  ).toBeNull();
+});
+
+test("diffRelations reports column changes", () => {
+  const previous = relation([
+    id,
+    column("name"),
+    column("email"),
+    column("age", 21),
+  ]);
+  const next = relation([
+    column("id", 23),
+    column("full_name"),
+    column("age", 23),
+    column("created_at", 1184),
+  ]);
+
+  expect(diffRelations(previous, next)).toEqual({
+    renamed: false,
+    replicaIdentityChanged: false,
+    columns: [
+      { kind: "key_changed", previous: id, column: next.columns[0] },
+      {
+        kind: "renamed",
+        previous: previous.columns[1],
+        column: next.columns[1],
+      },
+      {
+        kind: "retyped",
+        previous: previous.columns[3],
+        column: next.columns[2],
+      },
+      { kind: "added", column: next.columns[3] },
+      { kind: "dropped", column: previous.columns[2] },
+    ],
+  });
+});
+
+test("diffRelations reports relation changes", () => {
+  expect(
+    diffRelations(
+      relation([id]),
+      relation([id], { name: "accounts", replicaIdentity: "full" }),
+    ),
+  ).toEqual({ renamed: true, replicaIdentityChanged: true, columns: [] });
+});
+
+test("emits schema changes after changed relations", async () => {
+  const wal = (message: PgoutputRelation): WalPgoutputMessage => ({
+    type: "waldata",
+    currentLsn: "0/0",
+    messageLsn: "0/0",
+    systemTime: new Date("2024-01-01T00:00:00Z"),
+    message,
+  });
+
+  const v1 = relation([id]);
+  const v2 = relation([id, column("name")], { version: 2 });
+  const readable = new ReadableStream<WalPgoutputMessage>({
+    start(controller) {
+      controller.enqueue(wal(v1));
+      controller.enqueue(wal(relation([id])));
+      controller.enqueue(wal(v2));
+      controller.close();
+    },
+  });
+
+  const messages: (SchemaChangeWalMessage | WalPgoutputMessage)[] = [];
+  const reader = readable.pipeThrough(new SchemaChangeStream()).getReader();
+  for (let next = await reader.read(); !next.done; next = await reader.read()) {
+    messages.push(next.value);
+  }
+
+  expect(messages.map((x) => x.type)).toEqual([
+    "waldata",
+    "waldata",
+    "waldata",
+    "schema_change",
+  ]);
+  expect(messages[3]).toMatchObject({
+    change: {
+      previous: v1,
+      relation: v2,
+      columns: [{ kind: "added", column: v2.columns[1] }],
+    },
+  });
+});
@@ -0,0 +1,62 @@
+import type { PgoutputRelation } from "./messages.js";
+import type { WalPgoutputMessage } from "./PgoutputDecoderStream.js";
+import { diffRelations, type RelationDiff } from "./relationDiff.js";
+
+export interface SchemaChange extends RelationDiff {
+  /** The relation before the change. */
+  previous: PgoutputRelation;
+  /** The relation after the change. */
+  relation: PgoutputRelation;
+}
+
+export interface SchemaChangeWalMessage {
+  type: "schema_change";
+  currentLsn: string;
+  messageLsn: string;
+  systemTime: Date;
+  change: SchemaChange;
+}
+
+/**
+ * Implementation of `TransformStream` that passes through the messages
+ * emitted by `PgOutputDecoderStream`, and emits a `schema_change` message
+ * after each relation message that differs from the previous version of the
+ * relation.
+ *
+ * pgoutput sends a relation message before the first change to a relation in
+ * a session and whenever the relation changed, so the schema change is
+ * emitted before the first change decoded with the new version.
+ */
+export class SchemaChangeStream extends TransformStream<
+  WalPgoutputMessage,
+  SchemaChangeWalMessage | WalPgoutputMessage
+> {
+  constructor() {
+    /** Last observed version of each relation keyed on the OID. */
+    const relations = new Map<number, PgoutputRelation>();
+
+    super({
+      transform(wal, controller) {
+        controller.enqueue(wal);
+        if (wal.type !== "waldata" || wal.message.tag !== "relation") {
+          return;
+        }
+
+        const relation = wal.message;
+        const previous = relations.get(relation.oid);
+        relations.set(relation.oid, relation);
+
+        const diff = previous && diffRelations(previous, relation);
+        if (previous && diff) {
+          controller.enqueue({
+            type: "schema_change",
+            currentLsn: wal.currentLsn,
+            messageLsn: wal.messageLsn,
+            systemTime: wal.systemTime,
+            change: { ...diff, previous, relation },
+          });
+        }
+      },
+    });
+  }
+}
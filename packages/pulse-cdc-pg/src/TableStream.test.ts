@@ -0,0 +1,61 @@
+import { expect, expectTypeOf, test } from "vitest";
+import type { BackfillMessage } from "./BackfillStream.js";
+import { TableStream, type TableWalMessage } from "./TableStream.js";
+import { relation, wal } from "../test/test-utils.js";
+
+type Tables = {
+  "public.users": {
+    row: { id: number; name: string | null };
+    key: "id";
+  };
+  "public.posts": {
+    row: { id: number; title: string };
+    key: "id";
+  };
+};
+
+const users = relation("users");
+const posts = relation("posts");
+
+test("emits only the changes to the table", async () => {
+  const messages = [
+    wal({ tag: "begin", commitLsn: "0/0", commitTime: new Date(0), xid: 1 }),
+    wal(users),
+    wal({ tag: "insert", relation: users, new: { id: 1, name: "alice" } }),
+    wal({ tag: "insert", relation: posts, new: { id: 1, title: "hello" } }),
+    wal({
+      tag: "truncate",
+      cascade: false,
+      restartIdentity: false,
+      relations: [posts, users],
+    }),
+    {
+      type: "snapshot",
+      lsn: "0/0",
+      message: { tag: "read", relation: users, new: { id: 2, name: null } },
+    } satisfies BackfillMessage,
+  ];
+  const readable = new ReadableStream<BackfillMessage>({
+    start(controller) {
+      messages.forEach((message) => controller.enqueue(message));
+      controller.close();
+    },
+  });
+
+  const stream = new TableStream<Tables, "public.users">("public.users");
+  const result: TableWalMessage<Tables["public.users"]>[] = [];
+  const reader = readable.pipeThrough(stream).getReader();
+  for (let next = await reader.read(); !next.done; next = await reader.read()) {
+    result.push(next.value);
+  }
+
+  expect(result).toEqual([messages[2], messages[4], messages[5]]);
+
+  const [first] = result;
+  if (first?.message.tag === "insert") {
+    expectTypeOf(first.message.new).toEqualTypeOf<{
+      id: number;
+      name: string | null;
+    }>();
+  }
+});
@@ -0,0 +1,114 @@
+import type { BackfillMessage, SnapshotWalMessage } from "./BackfillStream.js";
+import type {
+  PgoutputDelete,
+  PgoutputInsert,
+  PgoutputRead,
+  PgoutputRelation,
+  PgoutputTruncate,
+  PgoutputUpdate,
+} from "./messages.js";
+import type { WalPgoutputMessage } from "./PgoutputDecoderStream.js";
+
+/** Row and key columns of a table, as generated by `generateTableTypes()`. */
+export interface TableDefinition {
+  row: Record<string, unknown>;
+  /** Names of the replica identity key columns. */
+  key: string;
+}
+
+/** Tables keyed on the qualified name, such as `public.users`. */
+export type TableMap<T> = { [K in keyof T]: TableDefinition };
+
+type Key<T extends TableDefinition> = Pick<T["row"], T["key"] & keyof T["row"]>;
+
+export type TableInsert<T extends TableDefinition> = Omit<
+  PgoutputInsert,
+  "new"
+> & { new: T["row"] };
+
+export type TableUpdate<T extends TableDefinition> = Omit<
+  PgoutputUpdate,
+  "key" | "new" | "old"
+> & { key: Key<T> | null; new: T["row"]; old: T["row"] | null };
+
+export type TableDelete<T extends TableDefinition> = Omit<
+  PgoutputDelete,
+  "key" | "old"
+> & { key: Key<T> | null; old: T["row"] | null };
+
+export type TableRead<T extends TableDefinition> = Omit<PgoutputRead, "new"> & {
+  new: T["row"];
+};
+
+export type TableChange<T extends TableDefinition> =
+  | PgoutputTruncate
+  | TableDelete<T>
+  | TableInsert<T>
+  | TableRead<T>
+  | TableUpdate<T>;
+
+type WalData = Extract<WalPgoutputMessage, { type: "waldata" }>;
+
+/** A message of `BackfillMessage` narrowed to the changes of a table. */
+export type TableWalMessage<T extends TableDefinition> =
+  | (Omit<SnapshotWalMessage, "message"> & { message: TableRead<T> })
+  | (Omit<WalData, "message"> & {
+      message: Exclude<TableChange<T>, TableRead<T>>;
+    });
+
+function isTable(relation: PgoutputRelation, table: string) {
+  return `${relation.schema}.${relation.name}` === table;
+}
+
+/**
+ * Implementation of `TransformStream` that emits only the changes to a single
+ * table, typed with the row type of the table. Accepts the messages emitted by
+ * `PgOutputDecoderStream` or `BackfillStream`.
+ *
+ * Truncate messages are emitted when the table is one of the truncated
+ * relations. The row types are not checked at runtime, so they must be
+ * generated again when the schema of the table changes.
+ *
+ * @example
+ * ```ts
+ * import type { Tables } from "./tables.js";
+ *
+ * const users = messages.pipeThrough(
+ *   new TableStream<Tables, "public.users">("public.users"),
+ * );
+ * ```
+ */
+export class TableStream<
+  T extends TableMap<T>,
+  K extends keyof T & string,
+> extends TransformStream<BackfillMessage, TableWalMessage<T[K]>> {
+  /** The qualified name of the table, such as `public.users`. */
+  readonly table: K;
+
+  constructor(table: K) {
+    super({
+      transform(wal, controller) {
+        if (wal.type === "keepalive") {
+          return;
+        }
+        const { message } = wal;
+        switch (message.tag) {
+          case "delete":
+          case "insert":
+          case "read":
+          case "update":
+            if (isTable(message.relation, table)) {
+              controller.enqueue(wal as TableWalMessage<T[K]>);
+            }
+            break;
+          case "truncate":
+            if (message.relations.some((x) => isTable(x, table))) {
+              controller.enqueue(wal as TableWalMessage<T[K]>);
+            }
+            break;
+        }
+      },
+    });
+    this.table = table;
+  }
+}
@@ -0,0 +1,153 @@
+import type { ClientBase } from "pg";
+import { beforeEach, expect, test } from "vitest";
+import type { PgoutputMessages, PgoutputUpdate } from "./messages.js";
+import {
+  ToastRefetchStream,
+  type ToastRefetchStreamInit,
+} from "./ToastRefetchStream.js";
+import { column, relation, systemTime, wal } from "../test/test-utils.js";
+
+const users = relation("users", {
+  columns: [
+    column("id", 23, { parser: Number }),
+    column("bio"),
+    column("name"),
+  ],
+});
+
+/** Current rows of the users table keyed on the ID. */
+let table: Map<number, { bio: string; name: string }>;
+let queries: { sql: string; params: unknown[] }[];
+
+const client = {
+  async query(sql: string, params: unknown[]) {
+    queries.push({ sql, params });
+    if (sql.includes("pg_type")) {
+      return { rows: [{ oid: 23, name: "integer" }] };
+    }
+    const [ids] = params as [number[]];
+    const rows = ids.flatMap((id, i) => {
+      const row = table.get(id);
+      // the ordinality of the keys is an int8
+      return row ? [{ "#": String(i + 1), ...row }] : [];
+    });
+    return { rows };
+  },
+} as unknown as ClientBase;
+
+beforeEach(() => {
+  table = new Map([
+    [1, { bio: "bio 1", name: "now 1" }],
+    [2, { bio: "bio 2", name: "now 2" }],
+  ]);
+  queries = [];
+});
+
+function update(
+  row: Record<string, unknown>,
+  unchangedColumns?: string[],
+): PgoutputUpdate {
+  return {
+    tag: "update",
+    relation: users,
+    key: null,
+    old: null,
+    new: row,
+    ...(unchangedColumns && { unchangedColumns }),
+  };
+}
+
+const begin: PgoutputMessages = {
+  tag: "begin",
+  commitLsn: "0/20",
+  commitTime: systemTime,
+  xid: 7,
+};
+const commit: PgoutputMessages = {
+  tag: "commit",
+  flags: 0,
+  commitLsn: "0/20",
+  commitEndLsn: "0/30",
+  commitTime: systemTime,
+};
+
+async function refetch(
+  init: Omit<ToastRefetchStreamInit, "client">,
+  messages: PgoutputMessages[],
+) {
+  const stream = new ToastRefetchStream({ client, ...init });
+  const writer = stream.writable.getWriter();
+  const output: unknown[] = [];
+  const reading = (async () => {
+    for await (const x of stream.readable) {
+      if (x.type === "waldata") {
+        output.push(x.message);
+      }
+    }
+  })();
+  for (const message of messages) {
+    await writer.write(wal(message));
+  }
+  await writer.close();
+  await reading;
+  return output;
+}
+
+test("fills in unchanged columns at the end of transactions", async () => {
+  const output = await refetch({}, [
+    begin,
+    update({ id: 1, bio: undefined, name: "new 1" }, ["bio"]),
+    update({ id: 2, bio: "new 2", name: undefined }, ["name"]),
+    update({ id: 3, bio: undefined, name: "new 3" }, ["bio"]),
+    update({ id: 1, bio: "new 1", name: "new 1" }),
+    commit,
+  ]);
+
+  expect(output).toEqual([
+    begin,
+    update({ id: 1, bio: "bio 1", name: "new 1" }),
+    update({ id: 2, bio: "new 2", name: "now 2" }),
+    // the row no longer exists
+    update({ id: 3, bio: undefined, name: "new 3" }, ["bio"]),
+    update({ id: 1, bio: "new 1", name: "new 1" }),
+    commit,
+  ]);
+  expect(queries).toEqual([
+    {
+      sql: `SELECT oid, format_type(oid, NULL) AS name FROM pg_type WHERE oid = ANY($1)`,
+      params: [[23]],
+    },
+    {
+      sql: `SELECT k."#", t."bio", t."name" FROM "public"."users" AS t JOIN unnest($1::integer[]) WITH ORDINALITY AS k("id", "#") ON t."id" = k."id"`,
+      params: [[1, 2, 3]],
+    },
+  ]);
+});
+
+test("fetches values in batches", async () => {
+  await refetch({ batchSize: 2 }, [
+    begin,
+    update({ id: 1, bio: undefined }, ["bio"]),
+    update({ id: 2, bio: undefined }, ["bio"]),
+    update({ id: 1, bio: undefined }, ["bio"]),
+    commit,
+  ]);
+
+  // the type names are looked up once
+  expect(queries.map((x) => x.params)).toEqual([[[23]], [[1, 2]], [[1]]]);
+});
+
+test("passes through messages without unchanged columns", async () => {
+  const stream = new ToastRefetchStream({ client });
+  const writer = stream.writable.getWriter();
+  const reader = stream.readable.getReader();
+
+  void writer.write(wal(begin));
+  void writer.write(wal(update({ id: 1, bio: "new 1", name: "new 1" })));
+
+  expect((await reader.read()).value).toEqual(wal(begin));
+  expect((await reader.read()).value).toEqual(
+    wal(update({ id: 1, bio: "new 1", name: "new 1" })),
+  );
+  expect(queries).toEqual([]);
+});
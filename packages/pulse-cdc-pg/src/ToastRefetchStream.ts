@@ -0,0 +1,188 @@
+import pg, { type ClientBase, type Pool } from "pg";
+import type { BackfillMessage } from "./BackfillStream.js";
+import type { PgoutputRelation, PgoutputUpdate } from "./messages.js";
+
+export interface ToastRefetchStreamInit {
+  /**
+   * Client or pool used to query the current rows. This must be a regular
+   * (non-replication) connection.
+   */
+  client: ClientBase | Pool;
+  /**
+   * Maximum number of updates held back before their values are fetched.
+   *
+   * @default 100
+   */
+  batchSize?: number;
+}
+
+const quote = (name: string) => pg.escapeIdentifier(name);
+
+/** Messages that the changes of a batch are not held back past. */
+const BOUNDARIES = new Set([
+  "begin",
+  "begin_prepare",
+  "commit",
+  "prepare",
+  "stream_start",
+  "stream_stop",
+]);
+
+function fill(
+  { unchangedColumns, ...update }: PgoutputUpdate,
+  row: Record<string, unknown>,
+): PgoutputUpdate {
+  // only the unchanged columns of the update are filled in, since the row may
+  // include columns that are unchanged in other updates of the batch
+  const values = Object.fromEntries(unchangedColumns!.map((x) => [x, row[x]]));
+  return { ...update, new: { ...update.new, ...values } };
+}
+
+/**
+ * Implementation of `TransformStream` that fills in the unchanged TOASTed
+ * values of updates by fetching the current rows by primary key, for sinks
+ * that need full rows without `REPLICA IDENTITY FULL`.
+ *
+ * Updates with `unchangedColumns` are held back along with the messages after
+ * them, until the end of the transaction or `batchSize` updates, and then the
+ * values are fetched with one query per table. The fetched values are parsed
+ * by the type parsers of `client`, and the `unchangedColumns` of the fetched
+ * updates are removed. Updates of rows that no longer exist, and of tables
+ * without a replica identity key, stay unchanged.
+ *
+ * The fetched values are the current values of the rows rather than the
+ * values at the time of the update, so they may include later changes.
+ *
+ * @example
+ * ```ts
+ * const enriched = messages.pipeThrough(
+ *   new ToastRefetchStream({ client: pool }),
+ * );
+ * ```
+ */
+export class ToastRefetchStream extends TransformStream<
+  BackfillMessage,
+  BackfillMessage
+> {
+  constructor(init: ToastRefetchStreamInit) {
+    const { batchSize = 100, client } = init;
+
+    /** Messages held back until the values of the updates are fetched. */
+    let buffer: BackfillMessage[] = [];
+    /** Updates in the buffer with unchanged columns, keyed on the relation. */
+    let updates = new Map<PgoutputRelation, PgoutputUpdate[]>();
+    let count = 0;
+
+    /** SQL names of the types of key columns, keyed on the type OID. */
+    const typeNames = new Map<number, string>();
+    const lookupTypeNames = async (oids: number[]) => {
+      const missing = [...new Set(oids)].filter((x) => !typeNames.has(x));
+      if (missing.length === 0) {
+        return;
+      }
+      const result = await client.query<{ oid: number; name: string }>(
+        `SELECT oid, format_type(oid, NULL) AS name FROM pg_type WHERE oid = ANY($1)`,
+        [missing],
+      );
+      for (const { oid, name } of result.rows) {
+        typeNames.set(oid, name);
+      }
+    };
+
+    /**
+     * Fetches the unchanged columns of the rows of the updates, returning the
+     * row of each update that still exists.
+     */
+    const fetchRows = async (
+      relation: PgoutputRelation,
+      updates: PgoutputUpdate[],
+    ) => {
+      const { keyColumns } = relation;
+      const keyed = updates.filter((x) =>
+        keyColumns.every((k) => x.new[k] != null),
+      );
+      if (keyColumns.length === 0 || keyed.length === 0) {
+        return new Map<PgoutputUpdate, Record<string, unknown>>();
+      }
+
+      const typeOids = new Map(
+        relation.columns.map((x) => [x.name, x.typeOid]),
+      );
+      await lookupTypeNames(keyColumns.map((k) => typeOids.get(k)!));
+
+      const unchanged = [...new Set(keyed.flatMap((x) => x.unchangedColumns!))];
+      const columns = unchanged.map((x) => `t.${quote(x)}`);
+      const table = `${quote(relation.schema)}.${quote(relation.name)}`;
+      // the keys are passed as one array for each key column, and the rows
+      // are joined with the keys numbered by the position of their update
+      const arrays = keyColumns.map(
+        (k, i) => `$${i + 1}::${typeNames.get(typeOids.get(k)!)}[]`,
+      );
+      const keys = [...keyColumns.map(quote), `"#"`];
+      const on = keyColumns.map((k) => `t.${quote(k)} = k.${quote(k)}`);
+      const sql = `SELECT k."#", ${columns.join(", ")} FROM ${table} AS t JOIN unnest(${arrays.join(", ")}) WITH ORDINALITY AS k(${keys.join(", ")}) ON ${on.join(" AND ")}`;
+
+      // the values are parsed by the type parsers of the client, since the
+      // decoded values of the relation may be in the binary format
+      const result = await client.query<Record<string, unknown>>(
+        sql,
+        keyColumns.map((k) => keyed.map((x) => x.new[k])),
+      );
+      return new Map(
+        result.rows.map((row) => [keyed[Number(row["#"]) - 1]!, row]),
+      );
+    };
+
+    const flush = async (
+      controller: TransformStreamDefaultController<BackfillMessage>,
+    ) => {
+      const fetched = new Map<PgoutputUpdate, Record<string, unknown>>();
+      for (const [relation, x] of updates) {
+        for (const [update, row] of await fetchRows(relation, x)) {
+          fetched.set(update, row);
+        }
+      }
+
+      for (const wal of buffer) {
+        controller.enqueue(
+          wal.type === "waldata" &&
+            wal.message.tag === "update" &&
+            fetched.has(wal.message)
+            ? { ...wal, message: fill(wal.message, fetched.get(wal.message)!) }
+            : wal,
+        );
+      }
+
+      buffer = [];
+      updates = new Map();
+      count = 0;
+    };
+
+    super({
+      async transform(wal, controller) {
+        const message = wal.type === "keepalive" ? null : wal.message;
+        if (message?.tag === "update" && message.unchangedColumns) {
+          const relationUpdates = updates.get(message.relation) ?? [];
+          relationUpdates.push(message);
+          updates.set(message.relation, relationUpdates);
+          count++;
+        } else if (count === 0) {
+          controller.enqueue(wal);
+          return;
+        }
+
+        buffer.push(wal);
+        if (
+          count >= batchSize ||
+          wal.type !== "waldata" ||
+          BOUNDARIES.has(wal.message.tag)
+        ) {
+          await flush(controller);
+        }
+      },
+      async flush(controller) {
+        await flush(controller);
+      },
+    });
+  }
+}
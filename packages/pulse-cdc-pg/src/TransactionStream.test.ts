@@ -0,0 +1,293 @@
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, expect, test, vi } from "vitest";
+import type { PgoutputMessages } from "./messages.js";
+import {
+  TransactionStream,
+  type Transaction,
+  type TransactionChange,
+} from "./TransactionStream.js";
+import { collect, relation, systemTime, wal } from "../test/test-utils.js";
+
+const users = relation("users");
+
+function insert(id: number, xid?: number): PgoutputMessages {
+  return {
+    tag: "insert",
+    ...(xid === undefined ? {} : { xid }),
+    relation: users,
+    new: { id },
+  };
+}
+
+async function changes(transaction: Transaction) {
+  const result: TransactionChange[] = [];
+  for await (const change of transaction.changes) {
+    result.push(change);
+  }
+  return result;
+}
+
+let spillDirectory: string;
+
+beforeEach(async () => {
+  spillDirectory = await mkdtemp(join(tmpdir(), "pulse-test-"));
+});
+
+afterEach(async () => {
+  await rm(spillDirectory, { recursive: true, force: true });
+});
+
+test("groups changes between begin and commit", async () => {
+  const [transaction, ...rest] = await collect(new TransactionStream(), [
+    {
+      type: "keepalive",
+      currentLsn: "0/0",
+      systemTime,
+      shouldRespond: false,
+    },
+    wal({ tag: "begin", commitLsn: "0/10", commitTime: systemTime, xid: 750 }),
+    wal({ tag: "origin", originLsn: "0/5", originName: "us-east" }),
+    wal(users),
+    wal(insert(1)),
+    wal(insert(2)),
+    wal({
+      tag: "commit",
+      flags: 0,
+      commitLsn: "0/10",
+      commitEndLsn: "0/20",
+      commitTime: systemTime,
+    }),
+  ]);
+
+  expect(rest).toEqual([]);
+  expect(transaction).toEqual({
+    xid: 750,
+    commitLsn: "0/10",
+    commitEndLsn: "0/20",
+    commitTime: systemTime,
+    origin: "us-east",
+    changeCount: 2,
+    changes: expect.anything(),
+  });
+  expect(await changes(transaction!)).toEqual([insert(1), insert(2)]);
+});
+
+test("spills large transactions to disk", async () => {
+  const [transaction] = await collect(
+    new TransactionStream({ spillDirectory, spillThreshold: 2 }),
+    [
+      wal({
+        tag: "begin",
+        commitLsn: "0/10",
+        commitTime: systemTime,
+        xid: 750,
+      }),
+      ...Array.from({ length: 5 }, (_, i) => wal(insert(i))),
+      wal({
+        tag: "commit",
+        flags: 0,
+        commitLsn: "0/10",
+        commitEndLsn: "0/20",
+        commitTime: systemTime,
+      }),
+    ],
+  );
+
+  expect(transaction?.changeCount).toBe(5);
+  expect(await readdir(spillDirectory)).toHaveLength(1);
+
+  const spilled = await changes(transaction!);
+  expect(spilled).toEqual(Array.from({ length: 5 }, (_, i) => insert(i)));
+  // relations are restored by reference
+  expect(spilled.every((x) => "relation" in x && x.relation === users)).toBe(
+    true,
+  );
+  expect(await readdir(spillDirectory)).toHaveLength(0);
+});
+
+test("removes the spill file when the iteration ends early", async () => {
+  const [transaction] = await collect(
+    new TransactionStream({ spillDirectory, spillThreshold: 2 }),
+    [
+      wal({
+        tag: "begin",
+        commitLsn: "0/10",
+        commitTime: systemTime,
+        xid: 750,
+      }),
+      ...Array.from({ length: 5 }, (_, i) => wal(insert(i))),
+      wal({
+        tag: "commit",
+        flags: 0,
+        commitLsn: "0/10",
+        commitEndLsn: "0/20",
+        commitTime: systemTime,
+      }),
+    ],
+  );
+
+  for await (const change of transaction!.changes) {
+    expect(change).toEqual(insert(0));
+    break;
+  }
+  expect(await readdir(spillDirectory)).toHaveLength(0);
+});
+
+test("removes spill files when the stream is cancelled", async () => {
+  const stream = new TransactionStream({ spillDirectory, spillThreshold: 2 });
+  const writer = stream.writable.getWriter();
+  const reader = stream.readable.getReader();
+  const transaction = (xid: number) => [
+    wal({ tag: "begin", commitLsn: "0/10", commitTime: systemTime, xid }),
+    ...Array.from({ length: 5 }, (_, i) => wal(insert(i))),
+  ];
+
+  // one emitted transaction that is not iterated and one incomplete one
+  for (const message of [
+    ...transaction(750),
+    wal({
+      tag: "commit",
+      flags: 0,
+      commitLsn: "0/10",
+      commitEndLsn: "0/20",
+      commitTime: systemTime,
+    }),
+    ...transaction(751),
+  ]) {
+    void writer.write(message);
+  }
+  await reader.read();
+  // pull to release the backpressure of the emitted transaction
+  void reader.read();
+  await vi.waitFor(async () => {
+    expect(await readdir(spillDirectory)).toHaveLength(2);
+  });
+
+  await reader.cancel();
+  expect(await readdir(spillDirectory)).toHaveLength(0);
+});
+
+test("assembles streamed transactions", async () => {
+  const transactions = await collect(
+    new TransactionStream({ spillDirectory, spillThreshold: 1 }),
+    [
+      wal({ tag: "stream_start", xid: 750, firstSegment: true }),
+      wal(insert(1, 750)),
+      wal(insert(2, 751)),
+      wal({ tag: "stream_stop" }),
+      wal({ tag: "stream_start", xid: 760, firstSegment: true }),
+      wal(insert(3, 760)),
+      wal({ tag: "stream_stop" }),
+      wal({ tag: "stream_start", xid: 750, firstSegment: false }),
+      wal(insert(4, 750)),
+      wal({ tag: "stream_stop" }),
+      wal({ tag: "stream_abort", xid: 750, subXid: 751 }),
+      wal({ tag: "stream_abort", xid: 760, subXid: 760 }),
+      wal({
+        tag: "stream_commit",
+        xid: 750,
+        flags: 0,
+        commitLsn: "0/10",
+        commitEndLsn: "0/20",
+        commitTime: systemTime,
+      }),
+    ],
+  );
+
+  expect(transactions).toHaveLength(1);
+  expect(transactions[0]?.changeCount).toBe(2);
+  expect(await changes(transactions[0]!)).toEqual([
+    insert(1, 750),
+    insert(4, 750),
+  ]);
+  expect(await readdir(spillDirectory)).toHaveLength(0);
+});
+
+test("assembles prepared transactions", async () => {
+  const prepare = {
+    prepareLsn: "0/10",
+    prepareEndLsn: "0/20",
+    prepareTime: systemTime,
+  };
+  const transactions = await collect(new TransactionStream(), [
+    wal({ tag: "begin_prepare", ...prepare, xid: 750, gid: "a" }),
+    wal(insert(1)),
+    wal({ tag: "prepare", flags: 0, ...prepare, xid: 750, gid: "a" }),
+    wal({ tag: "begin_prepare", ...prepare, xid: 751, gid: "b" }),
+    wal(insert(2)),
+    wal({ tag: "prepare", flags: 0, ...prepare, xid: 751, gid: "b" }),
+    wal({
+      tag: "rollback_prepared",
+      flags: 0,
+      prepareEndLsn: "0/20",
+      rollbackEndLsn: "0/30",
+      prepareTime: systemTime,
+      rollbackTime: systemTime,
+      xid: 751,
+      gid: "b",
+    }),
+    wal({
+      tag: "commit_prepared",
+      flags: 0,
+      commitLsn: "0/30",
+      commitEndLsn: "0/40",
+      commitTime: systemTime,
+      xid: 750,
+      gid: "a",
+    }),
+  ]);
+
+  expect(transactions).toHaveLength(1);
+  expect(transactions[0]).toMatchObject({
+    xid: 750,
+    commitLsn: "0/30",
+    commitEndLsn: "0/40",
+  });
+  expect(await changes(transactions[0]!)).toEqual([insert(1)]);
+});
+
+test("resolves transactions prepared before a restart", async () => {
+  const transactions = await collect(new TransactionStream(), [
+    wal({
+      tag: "rollback_prepared",
+      flags: 0,
+      prepareEndLsn: "0/20",
+      rollbackEndLsn: "0/30",
+      prepareTime: systemTime,
+      rollbackTime: systemTime,
+      xid: 751,
+      gid: "b",
+    }),
+    wal({ tag: "stream_abort", xid: 752, subXid: 752 }),
+    wal({
+      tag: "commit_prepared",
+      flags: 0,
+      commitLsn: "0/30",
+      commitEndLsn: "0/40",
+      commitTime: systemTime,
+      xid: 750,
+      gid: "a",
+    }),
+  ]);
+
+  expect(transactions).toEqual([
+    {
+      xid: 750,
+      commitLsn: "0/30",
+      commitEndLsn: "0/40",
+      commitTime: systemTime,
+      origin: null,
+      changeCount: 0,
+      changes: expect.anything(),
+    },
+  ]);
+  expect(await changes(transactions[0]!)).toEqual([]);
+});
+
+test("errors on changes outside of a transaction", async () => {
+  await expect(
+    collect(new TransactionStream(), [wal(insert(1))]),
+  ).rejects.toThrow(/insert outside of a transaction/);
+});
@@ -0,0 +1,427 @@
+import { randomUUID } from "node:crypto";
+import { open, rm, type FileHandle } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { deserialize, serialize } from "node:v8";
+import { PgOutputProtocolError } from "./errors.js";
+import type {
+  PgoutputDelete,
+  PgoutputInsert,
+  PgoutputMessage,
+  PgoutputRelation,
+  PgoutputTruncate,
+  PgoutputUpdate,
+} from "./messages.js";
+import type { WalPgoutputMessage } from "./PgoutputDecoderStream.js";
+
+export type TransactionChange =
+  | PgoutputDelete
+  | PgoutputInsert
+  | PgoutputMessage
+  | PgoutputTruncate
+  | PgoutputUpdate;
+
+export interface Transaction {
+  xid: number;
+  commitLsn: string | null;
+  commitEndLsn: string | null;
+  commitTime: Date;
+  origin: string | null;
+  /** Number of changes in the transaction. */
+  changeCount: number;
+  /**
+   * Changes in the order they were made. Transactions that were spilled to
+   * disk can only be iterated once, and the spill file is removed when the
+   * iteration ends, when the changes are garbage collected without being
+   * iterated, or when the stream is cancelled or aborted.
+   */
+  changes: AsyncIterable<TransactionChange>;
+}
+
+export interface TransactionStreamInit {
+  /**
+   * Directory used to store the changes of transactions exceeding
+   * `spillThreshold`.
+   *
+   * @default os.tmpdir()
+   */
+  spillDirectory?: string;
+  /**
+   * Number of changes held in memory for a single transaction before the
+   * changes are spilled to disk.
+   *
+   * @default 10000
+   */
+  spillThreshold?: number;
+}
+
+interface TransactionCommit {
+  commitLsn: string | null;
+  commitEndLsn: string | null;
+  commitTime: Date;
+}
+
+/** Spilled change with relations replaced by an index into a lookup table. */
+type Spilled<T> = T extends { relation: PgoutputRelation }
+  ? Omit<T, "relation"> & { relation: number }
+  : T extends { relations: PgoutputRelation[] }
+    ? Omit<T, "relations"> & { relations: number[] }
+    : T;
+type SpilledChange = Spilled<TransactionChange>;
+
+interface TransactionBufferInit extends Required<TransactionStreamInit> {
+  /** Paths of the spill files that were not removed yet. */
+  spillFiles: Set<string>;
+}
+
+/** Removes the spill files of transactions dropped without being iterated. */
+const spillFileRegistry = new FinalizationRegistry<{
+  path: string;
+  spillFiles: Set<string>;
+}>(({ path, spillFiles }) => {
+  spillFiles.delete(path);
+  void rm(path, { force: true });
+});
+
+/**
+ * Buffer of the changes in a single transaction, which spills to a file once
+ * the number of changes exceeds the threshold.
+ */
+class TransactionBuffer {
+  readonly xid: number;
+  origin: string | null = null;
+
+  /** Subtransactions aborted while streaming the transaction. */
+  readonly #aborted = new Set<number>();
+  #changes: TransactionChange[] = [];
+  /** Number of changes by subtransaction ID to track aborted changes. */
+  readonly #counts = new Map<number | undefined, number>();
+  readonly #init: TransactionBufferInit;
+  #file: { path: string; handle: FileHandle } | null = null;
+  /** Relations referenced by spilled changes. */
+  readonly #relations: PgoutputRelation[] = [];
+
+  constructor(xid: number, init: TransactionBufferInit) {
+    this.xid = xid;
+    this.#init = init;
+  }
+
+  get changeCount() {
+    let count = 0;
+    for (const [xid, n] of this.#counts) {
+      if (xid === undefined || !this.#aborted.has(xid)) {
+        count += n;
+      }
+    }
+    return count;
+  }
+
+  abortSubtransaction(subXid: number) {
+    this.#aborted.add(subXid);
+    this.#changes = this.#changes.filter((x) => x.xid !== subXid);
+  }
+
+  async discard() {
+    this.#changes = [];
+    if (this.#file) {
+      await this.#file.handle.close();
+      await rm(this.#file.path, { force: true });
+      this.#init.spillFiles.delete(this.#file.path);
+      this.#file = null;
+    }
+  }
+
+  async finish({
+    commitLsn,
+    commitEndLsn,
+    commitTime,
+  }: TransactionCommit): Promise<Transaction> {
+    const transaction = {
+      xid: this.xid,
+      commitLsn,
+      commitEndLsn,
+      commitTime,
+      origin: this.origin,
+      changeCount: this.changeCount,
+    };
+
+    if (!this.#file) {
+      return { ...transaction, changes: toAsyncIterable(this.#changes) };
+    }
+
+    await this.#file.handle.close();
+    const { path } = this.#file;
+    const { spillFiles } = this.#init;
+    const changes = readSpillFile(
+      path,
+      this.#relations,
+      new Set(this.#aborted),
+      spillFiles,
+    );
+    spillFileRegistry.register(changes, { path, spillFiles });
+    return { ...transaction, changes };
+  }
+
+  async push(change: TransactionChange) {
+    this.#counts.set(change.xid, (this.#counts.get(change.xid) ?? 0) + 1);
+
+    if (!this.#file && this.#changes.length < this.#init.spillThreshold) {
+      this.#changes.push(change);
+      return;
+    }
+
+    if (!this.#file) {
+      const path = join(
+        this.#init.spillDirectory,
+        `pulse-transaction-${this.xid}-${randomUUID()}.spill`,
+      );
+      this.#file = { path, handle: await open(path, "w") };
+      this.#init.spillFiles.add(path);
+      const buffered = this.#changes;
+      this.#changes = [];
+      for (const x of buffered) {
+        await this.#spill(x);
+      }
+    }
+
+    await this.#spill(change);
+  }
+
+  async #spill(change: TransactionChange) {
+    const payload = serialize(this.#dehydrate(change));
+    const header = Buffer.alloc(4);
+    header.writeUInt32BE(payload.length);
+    await this.#file!.handle.write(Buffer.concat([header, payload]));
+  }
+
+  #dehydrate(change: TransactionChange): SpilledChange {
+    const ref = (relation: PgoutputRelation) => {
+      // relations are compared by identity since a relation may be sent again
+      // with a different shape during the transaction
+      const index = this.#relations.indexOf(relation);
+      return index < 0 ? this.#relations.push(relation) - 1 : index;
+    };
+
+    switch (change.tag) {
+      case "delete":
+      case "insert":
+      case "update":
+        return { ...change, relation: ref(change.relation) };
+      case "truncate":
+        return { ...change, relations: change.relations.map(ref) };
+      default:
+        return change;
+    }
+  }
+}
+
+async function* toAsyncIterable<T>(items: T[]) {
+  yield* items;
+}
+
+async function* readSpillFile(
+  path: string,
+  relations: PgoutputRelation[],
+  aborted: Set<number>,
+  spillFiles: Set<string>,
+): AsyncGenerator<TransactionChange> {
+  let handle: FileHandle | undefined;
+  try {
+    handle = await open(path, "r");
+    const header = Buffer.alloc(4);
+    while ((await handle.read(header, 0, 4)).bytesRead === 4) {
+      const payload = Buffer.alloc(header.readUInt32BE(0));
+      await handle.read(payload, 0, payload.length);
+
+      const change = deserialize(payload) as SpilledChange;
+      if (change.xid !== undefined && aborted.has(change.xid)) {
+        continue;
+      }
+
+      switch (change.tag) {
+        case "delete":
+        case "insert":
+        case "update":
+          yield { ...change, relation: relations[change.relation]! };
+          break;
+        case "truncate":
+          yield {
+            ...change,
+            relations: change.relations.map((x) => relations[x]!),
+          };
+          break;
+        default:
+          yield change;
+      }
+    }
+  } finally {
+    await handle?.close();
+    await rm(path, { force: true });
+    spillFiles.delete(path);
+  }
+}
+
+/**
+ * Implementation of `TransformStream` that assembles decoded pgoutput messages
+ * into transactions. A single `Transaction` is emitted when each transaction
+ * commits, containing the row changes and transactional custom messages in
+ * commit order.
+ *
+ * Streamed transactions (protocol version 2) and two-phase transactions
+ * (protocol version 3) are emitted when they are committed, and are discarded
+ * when they are aborted or rolled back. Transactions that were prepared or
+ * streamed before the stream started, such as before a restart, are emitted
+ * without their changes when they are committed, and are ignored when they are
+ * rolled back or aborted. Keepalives and non-transactional custom messages are
+ * not part of a transaction and are not emitted.
+ */
+export class TransactionStream extends TransformStream<
+  WalPgoutputMessage,
+  Transaction
+> {
+  constructor(init: TransactionStreamInit = {}) {
+    const options: TransactionBufferInit = {
+      spillDirectory: init.spillDirectory ?? tmpdir(),
+      spillThreshold: init.spillThreshold ?? 10000,
+      spillFiles: new Set(),
+    };
+
+    /** Transaction receiving changes. */
+    let current: TransactionBuffer | null = null;
+    /** In-progress streamed transactions keyed on the transaction ID. */
+    const streamed = new Map<number, TransactionBuffer>();
+    /** Prepared transactions keyed on the global transaction identifier. */
+    const prepared = new Map<string, TransactionBuffer>();
+
+    const getCurrent = (tag: string) => {
+      if (!current) {
+        throw new PgOutputProtocolError(`${tag} outside of a transaction`);
+      }
+      return current;
+    };
+
+    /**
+     * Removes a streamed transaction, returning an empty transaction when its
+     * changes were streamed before the stream started, such as before a
+     * restart.
+     */
+    const takeStreamed = (xid: number) => {
+      const transaction =
+        streamed.get(xid) ?? new TransactionBuffer(xid, options);
+      streamed.delete(xid);
+      return transaction;
+    };
+
+    /**
+     * Removes the spill files of incomplete transactions, and of emitted
+     * transactions that were not iterated yet when `emitted` is set.
+     */
+    const cleanup = async ({ emitted }: { emitted: boolean }) => {
+      const pending = new Set([
+        ...(current ? [current] : []),
+        ...streamed.values(),
+        ...prepared.values(),
+      ]);
+      for (const transaction of pending) {
+        await transaction.discard();
+      }
+      if (emitted) {
+        for (const path of options.spillFiles) {
+          await rm(path, { force: true });
+        }
+        options.spillFiles.clear();
+      }
+    };
+
+    /**
+     * Removes a prepared transaction, returning an empty transaction when it
+     * was prepared before the stream started, such as before a restart.
+     */
+    const takePrepared = (gid: string, xid: number) => {
+      const transaction =
+        prepared.get(gid) ?? new TransactionBuffer(xid, options);
+      prepared.delete(gid);
+      return transaction;
+    };
+
+    // the cancel callback is called by Node.js when the readable side is
+    // cancelled or the writable side is aborted, but is missing in the types
+    const transformer: Transformer<WalPgoutputMessage, Transaction> & {
+      cancel(): Promise<void>;
+    } = {
+      async transform(wal, controller) {
+        if (wal.type !== "waldata") {
+          return;
+        }
+
+        const { message } = wal;
+        switch (message.tag) {
+          case "begin":
+          case "begin_prepare":
+            current = new TransactionBuffer(message.xid, options);
+            break;
+          case "origin":
+            getCurrent(message.tag).origin = message.originName;
+            break;
+          case "delete":
+          case "insert":
+          case "truncate":
+          case "update":
+            await getCurrent(message.tag).push(message);
+            break;
+          case "message":
+            if (message.transactional) {
+              await getCurrent(message.tag).push(message);
+            }
+            break;
+          case "commit":
+            controller.enqueue(await getCurrent(message.tag).finish(message));
+            current = null;
+            break;
+          case "prepare":
+            prepared.set(message.gid, getCurrent(message.tag));
+            current = null;
+            break;
+          case "commit_prepared":
+            controller.enqueue(
+              await takePrepared(message.gid, message.xid).finish(message),
+            );
+            break;
+          case "rollback_prepared":
+            await takePrepared(message.gid, message.xid).discard();
+            break;
+          case "stream_start":
+            current =
+              streamed.get(message.xid) ??
+              new TransactionBuffer(message.xid, options);
+            streamed.set(message.xid, current);
+            break;
+          case "stream_stop":
+            current = null;
+            break;
+          case "stream_commit":
+            controller.enqueue(await takeStreamed(message.xid).finish(message));
+            break;
+          case "stream_abort":
+            if (message.subXid === message.xid) {
+              await takeStreamed(message.xid).discard();
+            } else {
+              streamed.get(message.xid)?.abortSubtransaction(message.subXid);
+            }
+            break;
+          case "stream_prepare":
+            prepared.set(message.gid, takeStreamed(message.xid));
+            break;
+        }
+      },
+      async flush() {
+        // emitted transactions may still be read after the stream closes
+        await cleanup({ emitted: false });
+      },
+      async cancel() {
+        await cleanup({ emitted: true });
+      },
+    };
+    super(transformer);
+  }
+}
@@ -0,0 +1,59 @@
+import { BinaryWriter } from "./BinaryWriter.js";
+
+interface WalDataEncoder<T> {
+  encode(message: T): Uint8Array;
+}
+
+export interface WalKeepalive {
+  type: "keepalive";
+  currentLsn: string;
+  systemTime: Date;
+  shouldRespond: boolean;
+}
+
+export interface WalData<T> {
+  type: "waldata";
+  currentLsn: string;
+  messageLsn: string;
+  systemTime: Date;
+  message: T;
+}
+
+/**
+ * `WalMessageEncoder` encodes the messages decoded by `WalMessageDecoder`
+ * back into the output of PostgreSQL logical replication.
+ *
+ * `WalMessageEncoder` encodes the outer WAL data envelope while delegating WAL
+ * data messages to a specified encoder instance.
+ *
+ * @see {@link https://www.postgresql.org/docs/current/protocol-replication.html#PROTOCOL-REPLICATION-START-REPLICATION PostgreSQL docs}
+ */
+export class WalMessageEncoder<T> {
+  readonly #encoder: WalDataEncoder<T>;
+
+  constructor(encoder: WalDataEncoder<T>) {
+    this.#encoder = encoder;
+  }
+
+  encode(message: WalKeepalive | WalData<T>): Uint8Array {
+    const writer = new BinaryWriter();
+    switch (message.type) {
+      case "keepalive":
+        writer
+          .writeUint8(0x6b /*k*/)
+          .writeLsn(message.currentLsn)
+          .writeTime(message.systemTime)
+          .writeUint8(message.shouldRespond ? 1 : 0);
+        break;
+      case "waldata":
+        writer
+          .writeUint8(0x77 /*w*/)
+          .writeLsn(message.messageLsn)
+          .writeLsn(message.currentLsn)
+          .writeTime(message.systemTime)
+          .write(this.#encoder.encode(message.message));
+        break;
+    }
+    return writer.toUint8Array();
+  }
+}
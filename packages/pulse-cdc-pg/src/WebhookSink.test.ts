@@ -0,0 +1,239 @@
+import { createHmac } from "node:crypto";
+import { createServer, type IncomingHttpHeaders, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, beforeEach, expect, test, vi } from "vitest";
+import type { BackfillMessage } from "./BackfillStream.js";
+import { WebhookError } from "./errors.js";
+import type { LsnLike } from "./Lsn.js";
+import {
+  MessageDeserializer,
+  type SerializedMessage,
+} from "./MessageSerializer.js";
+import { WebhookSink, type WebhookItem } from "./WebhookSink.js";
+import { relation, systemTime, wal } from "../test/test-utils.js";
+
+const users = relation("users");
+
+function insert(id: number, lsn: string): BackfillMessage {
+  return wal({ tag: "insert", relation: users, new: { id } }, lsn);
+}
+
+function commit(lsn: string, commitEndLsn: string): BackfillMessage {
+  return wal(
+    {
+      tag: "commit",
+      flags: 0,
+      commitLsn: lsn,
+      commitEndLsn,
+      commitTime: systemTime,
+    },
+    lsn,
+  );
+}
+
+interface Request {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+let server: Server;
+let url: string;
+let requests: Request[];
+/** Statuses of the next responses, `200` once empty. */
+let statuses: number[];
+
+beforeEach(async () => {
+  requests = [];
+  statuses = [];
+  server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      requests.push({ headers: req.headers, body });
+      res.statusCode = statuses.shift() ?? 200;
+      res.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+});
+
+afterEach(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+async function write(sink: WebhookSink, items: WebhookItem[]) {
+  const writer = sink.getWriter();
+  for (const item of items) {
+    await writer.write(item);
+  }
+  await writer.close();
+}
+
+function messages(request: Request) {
+  return (JSON.parse(request.body) as { messages: SerializedMessage[] })
+    .messages;
+}
+
+test("sends signed batches and acknowledges them", async () => {
+  const acknowledge = vi.fn<(lsn: LsnLike) => Promise<void>>();
+  const sink = new WebhookSink({
+    url,
+    maxBatchSize: 2,
+    replication: { acknowledge },
+    secret: "secret",
+  });
+
+  await write(sink, [
+    insert(1, "0/10"),
+    commit("0/18", "0/20"),
+    insert(3, "0/30"),
+    {
+      type: "keepalive",
+      currentLsn: "0/40",
+      systemTime,
+      shouldRespond: false,
+    },
+  ]);
+
+  expect(requests).toHaveLength(2);
+  expect(requests.map(messages).map((x) => x.length)).toEqual([2, 1]);
+  expect(acknowledge.mock.calls.map(([x]) => String(x))).toEqual([
+    "0/20",
+    "0/40",
+  ]);
+
+  // each batch is deserialized on its own
+  const deserializer = new MessageDeserializer();
+  expect(
+    messages(requests[1]!).map((x) => deserializer.deserialize(x)),
+  ).toEqual([insert(3, "0/30")]);
+
+  const { headers, body } = requests[0]!;
+  const timestamp = headers["x-pulse-timestamp"];
+  expect(headers["content-type"]).toBe("application/json");
+  expect(headers["x-pulse-signature"]).toBe(
+    `sha256=${createHmac("sha256", "secret").update(`${timestamp}.${body}`).digest("hex")}`,
+  );
+});
+
+test("acknowledges keepalives only outside of transactions", async () => {
+  const acknowledge = vi.fn<(lsn: LsnLike) => Promise<void>>();
+  const sink = new WebhookSink({
+    url,
+    maxBatchSize: 3,
+    replication: { acknowledge },
+  });
+  const keepalive = (lsn: string): BackfillMessage => ({
+    type: "keepalive",
+    currentLsn: lsn,
+    systemTime,
+    shouldRespond: false,
+  });
+  const begin: BackfillMessage = {
+    type: "waldata",
+    currentLsn: "0/10",
+    messageLsn: "0/10",
+    systemTime,
+    message: {
+      tag: "begin",
+      commitLsn: "0/18",
+      commitTime: systemTime,
+      xid: 750,
+    },
+  };
+
+  await write(sink, [
+    begin,
+    insert(1, "0/10"),
+    keepalive("0/50"),
+    commit("0/18", "0/20"),
+    keepalive("0/60"),
+  ]);
+
+  expect(requests).toHaveLength(1);
+  expect(acknowledge.mock.calls.map(([x]) => String(x))).toEqual([
+    "0/20",
+    "0/60",
+  ]);
+});
+
+test("sends batches after the maximum delay", async () => {
+  const sink = new WebhookSink({ url, maxBatchDelay: 20 });
+  const writer = sink.getWriter();
+
+  await writer.write(insert(1, "0/10"));
+  expect(requests).toHaveLength(0);
+  await vi.waitFor(() => expect(requests).toHaveLength(1));
+
+  await writer.close();
+  expect(requests).toHaveLength(1);
+});
+
+test("sends transactions with their changes", async () => {
+  const changes = [
+    { tag: "insert" as const, relation: users, new: { id: 1 } },
+    { tag: "insert" as const, relation: users, new: { id: 2 } },
+  ];
+  await write(new WebhookSink({ url }), [
+    {
+      xid: 750,
+      commitLsn: "0/10",
+      commitEndLsn: "0/20",
+      commitTime: systemTime,
+      origin: null,
+      changeCount: 2,
+      changes: (async function* () {
+        yield* changes;
+      })(),
+    },
+  ]);
+
+  expect(messages(requests[0]!)).toMatchObject([
+    { type: "transaction", xid: 750, changes: [{ tag: "insert" }, {}] },
+  ]);
+});
+
+test("retries failed requests", async () => {
+  statuses = [503, 429];
+  const acknowledge = vi.fn<(lsn: LsnLike) => Promise<void>>();
+  const sink = new WebhookSink({
+    url,
+    replication: { acknowledge },
+    retry: { initialDelay: 1 },
+  });
+
+  await write(sink, [insert(1, "0/10"), commit("0/18", "0/20")]);
+
+  expect(requests).toHaveLength(3);
+  expect(requests[0]!.body).toBe(requests[2]!.body);
+  expect(acknowledge).toHaveBeenCalledOnce();
+});
+
+test("errors on permanent failures without acknowledging", async () => {
+  statuses = [400];
+  const acknowledge = vi.fn<(lsn: LsnLike) => Promise<void>>();
+  const sink = new WebhookSink({
+    url,
+    replication: { acknowledge },
+    retry: { initialDelay: 1 },
+  });
+
+  const error = await write(sink, [insert(1, "0/10")]).catch((e) => e);
+  expect(error).toBeInstanceOf(WebhookError);
+  expect(error).toMatchObject({ status: 400 });
+  expect(requests).toHaveLength(1);
+  expect(acknowledge).not.toHaveBeenCalled();
+});
+
+test("errors once retries are exhausted", async () => {
+  statuses = [500, 500];
+  const sink = new WebhookSink({
+    url,
+    retry: { initialDelay: 1, maxAttempts: 2 },
+  });
+
+  await expect(write(sink, [insert(1, "0/10")])).rejects.toThrow(
+    new WebhookError("received status 500 after 2 attempts", 500),
+  );
+});
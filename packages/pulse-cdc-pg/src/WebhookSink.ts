@@ -0,0 +1,270 @@
+import { createHmac } from "node:crypto";
+import { setTimeout as delay } from "node:timers/promises";
+import type { BackfillMessage } from "./BackfillStream.js";
+import { WebhookError } from "./errors.js";
+import { Lsn, type LsnLike } from "./Lsn.js";
+import {
+  MessageSerializer,
+  type SerializedMessage,
+} from "./MessageSerializer.js";
+import type { Transaction } from "./TransactionStream.js";
+
+export type WebhookItem = BackfillMessage | Transaction;
+
+export interface WebhookSinkInit {
+  /** URL that batches are sent to with `POST` requests. */
+  url: string | URL;
+  /** Additional headers of each request, such as `Authorization`. */
+  headers?: Record<string, string>;
+  /**
+   * Maximum time in milliseconds that an item waits in a batch before the
+   * batch is sent.
+   *
+   * @default 1000
+   */
+  maxBatchDelay?: number;
+  /**
+   * Maximum number of items in a batch. Writes wait for a full batch to be
+   * sent, applying backpressure to the source.
+   *
+   * @default 100
+   */
+  maxBatchSize?: number;
+  /**
+   * Stream whose `acknowledge()` is called with the end LSN of the last
+   * transaction of each batch, once the endpoint accepted the batch.
+   */
+  replication?: { acknowledge(lsn: LsnLike): Promise<void> };
+  retry?: WebhookRetryOptions;
+  /**
+   * Secret used to sign each request. The signature is sent in the
+   * `x-pulse-signature` header as `sha256=` followed by the hex encoded
+   * HMAC-SHA256 of the `x-pulse-timestamp` header, a period and the body.
+   */
+  secret?: string;
+}
+
+interface WebhookRetryOptions {
+  /**
+   * Delay in milliseconds before the first retry. The delay is doubled for
+   * each consecutive retry.
+   *
+   * @default 1000
+   */
+  initialDelay?: number;
+  /**
+   * Maximum number of attempts to send a batch before the stream errors.
+   *
+   * @default 5
+   */
+  maxAttempts?: number;
+  /**
+   * Maximum delay in milliseconds between attempts.
+   *
+   * @default 30000
+   */
+  maxDelay?: number;
+}
+
+/**
+ * Determines whether a response status is expected to succeed when the
+ * request is retried. Client errors other than timeouts and rate limits are
+ * permanent failures.
+ */
+function isRetryable(status: number) {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Returns the end LSN of the transaction that is processed once the item was
+ * delivered, or `null` when the item does not end a transaction.
+ */
+function lsnOf(item: WebhookItem): string | null {
+  if (!("type" in item)) {
+    return item.commitEndLsn;
+  }
+  // snapshot rows are not acknowledged, see `BackfillStream`
+  if (item.type !== "waldata") {
+    return null;
+  }
+  const { message } = item;
+  switch (message.tag) {
+    case "commit":
+    case "commit_prepared":
+    case "stream_commit":
+      return message.commitEndLsn;
+    case "prepare":
+    case "stream_prepare":
+      return message.prepareEndLsn;
+    case "rollback_prepared":
+      return message.rollbackEndLsn;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Implementation of `WritableStream` that sends decoded messages or
+ * transactions to an HTTP endpoint in batches.
+ *
+ * Each batch is sent as a JSON `POST` request with the body
+ * `{ "messages": [...] }`, where each item is serialized by
+ * `MessageSerializer`. A new serializer is used for each batch, so each batch
+ * can be deserialized on its own. Keepalives are not sent, but their LSN is
+ * acknowledged along with the batch when no transaction is open.
+ *
+ * Batches are sent once `maxBatchSize` items were written or `maxBatchDelay`
+ * elapsed, one at a time and in order. Failed requests are retried with
+ * exponential backoff, except for client errors such as `400 Bad Request`,
+ * which error the stream with a `WebhookError`. With `replication`, the LSN
+ * of a batch is only acknowledged once the endpoint responds with a `2xx`
+ * status, so undelivered changes are streamed again after a restart.
+ */
+export class WebhookSink extends WritableStream<WebhookItem> {
+  constructor(init: WebhookSinkInit) {
+    const {
+      headers = {},
+      maxBatchDelay = 1000,
+      maxBatchSize = 100,
+      replication,
+      secret,
+      url,
+    } = init;
+    const retry = {
+      initialDelay: 1000,
+      maxAttempts: 5,
+      maxDelay: 30000,
+      ...init.retry,
+    };
+
+    let batch: SerializedMessage[] = [];
+    let batchLsn: Lsn | null = null;
+    /** The time the first item of the batch was written. */
+    let batchStart: number | null = null;
+    /** Whether changes of a transaction were written without its commit. */
+    let inTransaction = false;
+    let serializer = new MessageSerializer();
+    /** Sends batches one at a time and in order. */
+    let sending: Promise<void> = Promise.resolve();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const post = async (body: string) => {
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      const signature =
+        secret &&
+        createHmac("sha256", secret)
+          .update(`${timestamp}.${body}`)
+          .digest("hex");
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          ...headers,
+          "content-type": "application/json",
+          "x-pulse-timestamp": timestamp,
+          ...(signature && { "x-pulse-signature": `sha256=${signature}` }),
+        },
+        body,
+      });
+      // release the connection
+      await response.arrayBuffer();
+      return response.status;
+    };
+
+    const send = async (messages: SerializedMessage[], lsn: Lsn | null) => {
+      if (messages.length > 0) {
+        const body = JSON.stringify({ messages });
+        for (let attempt = 1; ; attempt++) {
+          let status: number | null = null;
+          let cause: unknown;
+          try {
+            status = await post(body);
+          } catch (e) {
+            cause = e;
+          }
+          if (status !== null && status >= 200 && status < 300) {
+            break;
+          }
+
+          const message =
+            status === null ? "request failed" : `received status ${status}`;
+          if (status !== null && !isRetryable(status)) {
+            throw new WebhookError(message, status);
+          }
+          if (attempt >= retry.maxAttempts) {
+            throw new WebhookError(
+              `${message} after ${attempt} attempts`,
+              status,
+              { cause },
+            );
+          }
+          const backoff = Math.min(
+            retry.maxDelay,
+            retry.initialDelay * 2 ** (attempt - 1),
+          );
+          await delay(backoff / 2 + (Math.random() * backoff) / 2);
+        }
+      }
+      if (lsn && replication) {
+        await replication.acknowledge(lsn);
+      }
+    };
+
+    /** Queues the current batch to be sent after previous batches. */
+    const flush = () => {
+      clearTimeout(timer);
+      const [messages, lsn] = [batch, batchLsn];
+      batch = [];
+      batchLsn = null;
+      batchStart = null;
+      serializer = new MessageSerializer();
+      sending = sending.then(() => send(messages, lsn));
+      return sending;
+    };
+
+    super({
+      async write(item, controller) {
+        await sending;
+        // the batch is not sent by the timer while an item is serialized,
+        // which would separate relations from changes referencing them
+        clearTimeout(timer);
+        batchStart ??= Date.now();
+
+        let lsn = lsnOf(item);
+        if (!("type" in item)) {
+          batch.push(await serializer.serializeTransaction(item));
+        } else if (item.type === "keepalive") {
+          // the LSN of a keepalive within a transaction may be past changes
+          // that are not delivered yet
+          lsn = inTransaction ? null : item.currentLsn;
+        } else {
+          batch.push(serializer.serialize(item));
+          const tag = item.type === "waldata" ? item.message.tag : null;
+          if (tag === "begin" || tag === "begin_prepare") {
+            inTransaction = true;
+          } else if (tag === "commit" || tag === "prepare") {
+            inTransaction = false;
+          }
+        }
+        if (lsn !== null) {
+          batchLsn = Lsn.max(batchLsn ?? Lsn.ZERO, lsn);
+        }
+
+        const remaining = batchStart + maxBatchDelay - Date.now();
+        if (batch.length >= maxBatchSize || remaining <= 0) {
+          await flush();
+        } else {
+          // errors of batches sent by the timer also reject the next write
+          timer = setTimeout(() => {
+            flush().catch((e) => controller.error(e));
+          }, remaining);
+        }
+      },
+      async close() {
+        await flush();
+      },
+      abort() {
+        clearTimeout(timer);
+      },
+    });
+  }
+}
@@ -0,0 +1,145 @@
+import pg from "pg";
+import { describe, expect, test } from "vitest";
+import { binaryReceivers } from "./binaryReceivers.js";
+
+function bytes(size: number, write: (view: DataView) => void) {
+  const buffer = new Uint8Array(size);
+  write(new DataView(buffer.buffer));
+  return buffer;
+}
+
+function numeric(
+  weight: number,
+  sign: number,
+  dscale: number,
+  digits: number[],
+) {
+  return bytes(8 + digits.length * 2, (view) => {
+    view.setInt16(0, digits.length);
+    view.setInt16(2, weight);
+    view.setUint16(4, sign);
+    view.setInt16(6, dscale);
+    digits.forEach((digit, i) => view.setInt16(8 + i * 2, digit));
+  });
+}
+
+function array(elementOid: number, dims: number[], elements: Uint8Array[]) {
+  const size =
+    12 + dims.length * 8 + elements.reduce((n, e) => n + 4 + e.length, 0);
+  return bytes(size, (view) => {
+    view.setInt32(0, dims.length);
+    view.setInt32(4, 0);
+    view.setUint32(8, elementOid);
+    let p = 12;
+    for (const dim of dims) {
+      view.setInt32(p, dim);
+      view.setInt32(p + 4, 1);
+      p += 8;
+    }
+    for (const element of elements) {
+      view.setInt32(p, element.length);
+      new Uint8Array(view.buffer).set(element, p + 4);
+      p += 4 + element.length;
+    }
+  });
+}
+
+const encoder = new TextEncoder();
+
+const cases: [string, number, Uint8Array, string][] = [
+  ["bool", 16, Uint8Array.of(1), "t"],
+  ["bytea", 17, Uint8Array.of(0xde, 0xad, 0xbe, 0xef), "\\xdeadbeef"],
+  ["int2", 21, bytes(2, (v) => v.setInt16(0, -12)), "-12"],
+  ["int4", 23, bytes(4, (v) => v.setInt32(0, 123456)), "123456"],
+  [
+    "int8",
+    20,
+    bytes(8, (v) => v.setBigInt64(0, 9007199254740993n)),
+    "9007199254740993",
+  ],
+  ["float4", 700, bytes(4, (v) => v.setFloat32(0, 1.1)), "1.1"],
+  ["float8", 701, bytes(8, (v) => v.setFloat64(0, -0.25)), "-0.25"],
+  ["numeric", 1700, numeric(1, 0, 4, [12, 3456, 7800]), "123456.7800"],
+  ["numeric (negative)", 1700, numeric(-1, 0x4000, 5, [123]), "-0.01230"],
+  ["numeric (zero)", 1700, numeric(0, 0, 2, []), "0.00"],
+  ["numeric (NaN)", 1700, numeric(0, 0xc000, 0, []), "NaN"],
+  [
+    "uuid",
+    2950,
+    Uint8Array.from({ length: 16 }, (_, i) => i * 17),
+    "00112233-4455-6677-8899-aabbccddeeff",
+  ],
+  ["date", 1082, bytes(4, (v) => v.setInt32(0, 8766)), "2024-01-01"],
+  ["date (BC)", 1082, bytes(4, (v) => v.setInt32(0, -730485)), "0001-01-01 BC"],
+  [
+    "date (infinity)",
+    1082,
+    bytes(4, (v) => v.setInt32(0, 0x7fffffff)),
+    "infinity",
+  ],
+  [
+    "timestamp",
+    1114,
+    bytes(8, (v) => v.setBigInt64(0, 757382400123456n)),
+    "2024-01-01 00:00:00.123456",
+  ],
+  [
+    "timestamp (before epoch)",
+    1114,
+    bytes(8, (v) => v.setBigInt64(0, -1n)),
+    "1999-12-31 23:59:59.999999",
+  ],
+  [
+    "timestamptz",
+    1184,
+    bytes(8, (v) => v.setBigInt64(0, 757382401000000n)),
+    "2024-01-01 00:00:01+00",
+  ],
+  ["jsonb", 3802, Uint8Array.of(1, ...encoder.encode('{"a": 1}')), '{"a": 1}'],
+  [
+    "int4[]",
+    1007,
+    array(
+      23,
+      [2, 2],
+      [1, 2, 3, 4].map((n) => bytes(4, (v) => v.setInt32(0, n))),
+    ),
+    "{{1,2},{3,4}}",
+  ],
+  [
+    "text[]",
+    1009,
+    array(
+      25,
+      [3],
+      ["a b", "NULL", 'q"\\'].map((s) => encoder.encode(s)),
+    ),
+    '{"a b","NULL","q\\"\\\\"}',
+  ],
+  ["int4[] (empty)", 1007, array(23, [], []), "{}"],
+];
+
+describe.each(cases)("%s", (_, oid, buffer, text) => {
+  const receive = binaryReceivers.get(oid)!;
+  const parse = pg.types.getTypeParser(oid);
+
+  test("receives the text format", () => {
+    expect(receive(buffer)).toBe(text);
+  });
+
+  test("parses the same value as the text format", () => {
+    expect(parse(receive(buffer))).toEqual(parse(text));
+  });
+});
+
+test("receives arrays with null elements", () => {
+  const buffer = bytes(12 + 8 + 4, (view) => {
+    view.setInt32(0, 1);
+    view.setInt32(4, 1);
+    view.setUint32(8, 23);
+    view.setInt32(12, 1);
+    view.setInt32(16, 1);
+    view.setInt32(20, -1);
+  });
+  expect(binaryReceivers.get(1007)!(buffer)).toBe("{NULL}");
+});
@@ -0,0 +1,298 @@
+import { BinaryReader } from "./BinaryReader.js";
+import { PgOutputProtocolError } from "./errors.js";
+
+/**
+ * Converts a value from the PostgreSQL binary (`typsend`) format into the
+ * PostgreSQL text output format for the same type.
+ *
+ * The text output is then passed to the configured text type parser, which
+ * ensures that columns decoded in binary mode produce the same values as
+ * columns decoded in text mode.
+ */
+export type BinaryReceiver = (buf: Uint8Array) => string;
+
+/** PostgreSQL epoch at 2000-01-01T00:00:00Z in milliseconds. */
+const EPOCH_MS = 946684800000;
+const MS_PER_DAY = 86400000;
+
+const INT32_MAX = 0x7fffffff;
+const INT32_MIN = -0x80000000;
+const INT64_MAX = 0x7fffffffffffffffn;
+const INT64_MIN = -0x8000000000000000n;
+
+const textDecoder = new TextDecoder();
+
+function view(buf: Uint8Array) {
+  return new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+}
+
+function hex(buf: Uint8Array) {
+  return Array.from(buf, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function formatDate(date: Date) {
+  const year = date.getUTCFullYear();
+  const month = String(date.getUTCMonth() + 1).padStart(2, "0");
+  const day = String(date.getUTCDate()).padStart(2, "0");
+  // years before 1 AD are formatted with an era suffix, 0 is 1 BC
+  const era = year < 1 ? " BC" : "";
+  const yyyy = String(year < 1 ? 1 - year : year).padStart(4, "0");
+  return { date: `${yyyy}-${month}-${day}`, era };
+}
+
+function formatTimestamp(buf: Uint8Array, offset: string) {
+  const micros = view(buf).getBigInt64(0);
+  if (micros === INT64_MAX) return "infinity";
+  if (micros === INT64_MIN) return "-infinity";
+
+  // split into milliseconds and the remaining microseconds, flooring to keep
+  // the remainder positive for timestamps before the epoch
+  let millis = micros / 1000n;
+  let rem = micros % 1000n;
+  if (rem < 0n) {
+    millis -= 1n;
+    rem += 1000n;
+  }
+
+  const time = new Date(Number(millis) + EPOCH_MS);
+  const { date, era } = formatDate(time);
+  const hh = String(time.getUTCHours()).padStart(2, "0");
+  const mm = String(time.getUTCMinutes()).padStart(2, "0");
+  const ss = String(time.getUTCSeconds()).padStart(2, "0");
+  const fraction = (
+    String(time.getUTCMilliseconds()).padStart(3, "0") +
+    String(rem).padStart(3, "0")
+  ).replace(/0+$/, "");
+
+  return `${date} ${hh}:${mm}:${ss}${fraction ? `.${fraction}` : ""}${offset}${era}`;
+}
+
+/** @see {@link https://github.com/postgres/postgres/blob/master/src/backend/utils/adt/bool.c boolsend} */
+function receiveBool(buf: Uint8Array) {
+  return buf[0] ? "t" : "f";
+}
+
+/** @see {@link https://github.com/postgres/postgres/blob/master/src/backend/utils/adt/varlena.c byteasend} */
+function receiveBytea(buf: Uint8Array) {
+  return `\\x${hex(buf)}`;
+}
+
+/** @see {@link https://github.com/postgres/postgres/blob/master/src/backend/utils/adt/date.c date_send} */
+function receiveDate(buf: Uint8Array) {
+  const days = view(buf).getInt32(0);
+  if (days === INT32_MAX) return "infinity";
+  if (days === INT32_MIN) return "-infinity";
+
+  const { date, era } = formatDate(new Date(EPOCH_MS + days * MS_PER_DAY));
+  return `${date}${era}`;
+}
+
+/** @see {@link https://github.com/postgres/postgres/blob/master/src/backend/utils/adt/float.c float4send} */
+function receiveFloat4(buf: Uint8Array) {
+  const value = view(buf).getFloat32(0);
+  if (!Number.isFinite(value)) {
+    return String(value);
+  }
+  // find the shortest representation that round-trips as a float4
+  for (let precision = 1; precision < 9; precision++) {
+    const shortest = Number(value.toPrecision(precision));
+    if (Math.fround(shortest) === value) {
+      return String(shortest);
+    }
+  }
+  return String(value);
+}
+
+/** @see {@link https://github.com/postgres/postgres/blob/master/src/backend/utils/adt/float.c float8send} */
+function receiveFloat8(buf: Uint8Array) {
+  return String(view(buf).getFloat64(0));
+}
+
+/** @see {@link https://github.com/postgres/postgres/blob/master/src/backend/utils/adt/int.c int2send} */
+function receiveInt2(buf: Uint8Array) {
+  return String(view(buf).getInt16(0));
+}
+
+/** @see {@link https://github.com/postgres/postgres/blob/master/src/backend/utils/adt/int.c int4send} */
+function receiveInt4(buf: Uint8Array) {
+  return String(view(buf).getInt32(0));
+}
+
+/** @see {@link https://github.com/postgres/postgres/blob/master/src/backend/utils/adt/int8.c int8send} */
+function receiveInt8(buf: Uint8Array) {
+  return String(view(buf).getBigInt64(0));
+}
+
+/** @see {@link https://github.com/postgres/postgres/blob/master/src/backend/utils/adt/jsonb.c jsonb_send} */
+function receiveJsonb(buf: Uint8Array) {
+  const version = buf[0];
+  if (version !== 1) {
+    throw new PgOutputProtocolError(`unsupported jsonb version ${version}`);
+  }
+  return textDecoder.decode(buf.subarray(1));
+}
+
+/** @see {@link https://github.com/postgres/postgres/blob/master/src/backend/utils/adt/numeric.c numeric_send} */
+function receiveNumeric(buf: Uint8Array) {
+  const data = view(buf);
+  const ndigits = data.getInt16(0);
+  const weight = data.getInt16(2);
+  const sign = data.getUint16(4);
+  const dscale = data.getInt16(6);
+
+  switch (sign) {
+    case 0xc000:
+      return "NaN";
+    case 0xd000:
+      return "Infinity";
+    case 0xf000:
+      return "-Infinity";
+  }
+
+  // each digit is a base 10000 value, the weight is the position of the first
+  // digit relative to the decimal point
+  const digit = (i: number) =>
+    i >= 0 && i < ndigits ? data.getInt16(8 + i * 2) : 0;
+
+  let integer = "";
+  for (let i = 0; i <= weight; i++) {
+    const d = String(digit(i));
+    integer += i === 0 ? d : d.padStart(4, "0");
+  }
+
+  let fraction = "";
+  for (let i = weight + 1; fraction.length < dscale; i++) {
+    fraction += String(digit(i)).padStart(4, "0");
+  }
+
+  return `${sign === 0x4000 ? "-" : ""}${integer || "0"}${dscale > 0 ? `.${fraction.slice(0, dscale)}` : ""}`;
+}
+
+/** @see {@link https://github.com/postgres/postgres/blob/master/src/backend/utils/adt/oid.c oidsend} */
+function receiveOid(buf: Uint8Array) {
+  return String(view(buf).getUint32(0));
+}
+
+/** @see {@link https://github.com/postgres/postgres/blob/master/src/backend/utils/adt/varlena.c textsend} */
+function receiveText(buf: Uint8Array) {
+  return textDecoder.decode(buf);
+}
+
+/** @see {@link https://github.com/postgres/postgres/blob/master/src/backend/utils/adt/timestamp.c timestamp_send} */
+function receiveTimestamp(buf: Uint8Array) {
+  return formatTimestamp(buf, "");
+}
+
+/** @see {@link https://github.com/postgres/postgres/blob/master/src/backend/utils/adt/timestamp.c timestamptz_send} */
+function receiveTimestamptz(buf: Uint8Array) {
+  return formatTimestamp(buf, "+00");
+}
+
+/** @see {@link https://github.com/postgres/postgres/blob/master/src/backend/utils/adt/uuid.c uuid_send} */
+function receiveUuid(buf: Uint8Array) {
+  const value = hex(buf);
+  return [
+    value.slice(0, 8),
+    value.slice(8, 12),
+    value.slice(12, 16),
+    value.slice(16, 20),
+    value.slice(20),
+  ].join("-");
+}
+
+/** @see {@link https://github.com/postgres/postgres/blob/master/src/backend/utils/adt/arrayfuncs.c array_send} */
+function receiveArray(buf: Uint8Array) {
+  const reader = new BinaryReader(buf);
+  const ndim = reader.readInt32();
+  reader.readInt32(); // has nulls flag
+  const elementOid = reader.readUint32();
+
+  if (ndim === 0) {
+    return "{}";
+  }
+
+  const receive = scalarReceivers.get(elementOid);
+  if (!receive) {
+    throw new PgOutputProtocolError(
+      `unsupported binary array element type ${elementOid}`,
+    );
+  }
+
+  const dims = Array.from({ length: ndim }, () => {
+    const size = reader.readInt32();
+    reader.readInt32(); // lower bound
+    return size;
+  });
+
+  const readElement = () => {
+    const length = reader.readInt32();
+    if (length === -1) {
+      return "NULL";
+    }
+    const value = receive(reader.read(length));
+    // quote values that would otherwise be ambiguous in the array literal
+    return value === "" ||
+      /[{}",\\\s]/.test(value) ||
+      value.toUpperCase() === "NULL"
+      ? `"${value.replace(/(["\\])/g, "\\$1")}"`
+      : value;
+  };
+
+  const readDimension = (dim: number): string => {
+    const items = Array.from({ length: dims[dim]! }, () =>
+      dim === ndim - 1 ? readElement() : readDimension(dim + 1),
+    );
+    return `{${items.join(",")}}`;
+  };
+
+  return readDimension(0);
+}
+
+const scalarReceivers = new Map<number, BinaryReceiver>([
+  [16, receiveBool], // bool
+  [17, receiveBytea], // bytea
+  [19, receiveText], // name
+  [20, receiveInt8], // int8
+  [21, receiveInt2], // int2
+  [23, receiveInt4], // int4
+  [25, receiveText], // text
+  [26, receiveOid], // oid
+  [114, receiveText], // json
+  [700, receiveFloat4], // float4
+  [701, receiveFloat8], // float8
+  [1042, receiveText], // bpchar
+  [1043, receiveText], // varchar
+  [1082, receiveDate], // date
+  [1114, receiveTimestamp], // timestamp
+  [1184, receiveTimestamptz], // timestamptz
+  [1700, receiveNumeric], // numeric
+  [2950, receiveUuid], // uuid
+  [3802, receiveJsonb], // jsonb
+]);
+
+/**
+ * Binary receive functions for common PostgreSQL types keyed on the type OID.
+ * Columns of other types are decoded as raw `Uint8Array` values.
+ */
+export const binaryReceivers: ReadonlyMap<number, BinaryReceiver> = new Map([
+  ...scalarReceivers,
+  [199, receiveArray], // json[]
+  [1000, receiveArray], // bool[]
+  [1001, receiveArray], // bytea[]
+  [1003, receiveArray], // name[]
+  [1005, receiveArray], // int2[]
+  [1007, receiveArray], // int4[]
+  [1009, receiveArray], // text[]
+  [1014, receiveArray], // bpchar[]
+  [1015, receiveArray], // varchar[]
+  [1016, receiveArray], // int8[]
+  [1021, receiveArray], // float4[]
+  [1022, receiveArray], // float8[]
+  [1028, receiveArray], // oid[]
+  [1115, receiveArray], // timestamp[]
+  [1182, receiveArray], // date[]
+  [1185, receiveArray], // timestamptz[]
+  [1231, receiveArray], // numeric[]
+  [2951, receiveArray], // uuid[]
+  [3807, receiveArray], // jsonb[]
+]);
@@ -0,0 +1,47 @@
+#!/usr/bin/env node
+import { writeFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import pg from "pg";
+import { generateTableTypes } from "./codegen.js";
+
+const USAGE = `Usage: pulse-cdc-pg-codegen --publication <name> [options]
+
+Generates TypeScript row types for the tables of a publication.
+
+Options:
+  --publication <name>  Publication to generate the types for
+  --out <path>          File to write the types to (default: stdout)
+  --import <module>     Module to import TableStream from
+  --url <url>           Connection string (default: $DATABASE_URL)`;
+
+const { values } = parseArgs({
+  options: {
+    help: { type: "boolean", short: "h" },
+    import: { type: "string" },
+    out: { type: "string" },
+    publication: { type: "string" },
+    url: { type: "string" },
+  },
+});
+
+const connectionString = values.url ?? process.env["DATABASE_URL"];
+if (values.help || !values.publication || !connectionString) {
+  console.error(USAGE);
+  process.exit(values.help ? 0 : 1);
+}
+
+const client = new pg.Client({ connectionString });
+await client.connect();
+try {
+  const source = await generateTableTypes(client, {
+    publicationName: values.publication,
+    ...(values.import && { importPath: values.import }),
+  });
+  if (values.out) {
+    await writeFile(values.out, source);
+  } else {
+    process.stdout.write(source);
+  }
+} finally {
+  await client.end();
+}
@@ -0,0 +1,68 @@
+import type { ClientBase } from "pg";
+import { expect, test } from "vitest";
+import { generateTableTypes } from "./codegen.js";
+
+function column(
+  table: string,
+  name: string,
+  typeOid: number,
+  { notNull = false, isKey = false, attnames = null as string[] | null } = {},
+) {
+  return {
+    schema: "public",
+    table,
+    name,
+    type_oid: typeOid,
+    not_null: notNull,
+    is_key: isKey,
+    attnames,
+  };
+}
+
+test("generates row types for published tables", async () => {
+  const rows = [
+    column("events", "payload", 3802, { attnames: ["payload"] }),
+    column("events", "secret", 25, { attnames: ["payload"] }),
+    column("users", "id", 20, { notNull: true, isKey: true }),
+    column("users", "display name", 1043),
+    column("users", "created_at", 1184, { notNull: true }),
+    column("users", "tags", 1009),
+    column("users", "status", 16500),
+  ];
+  const client = {
+    query: async () => ({ rows }),
+  } as unknown as ClientBase;
+
+  const source = await generateTableTypes(client, {
+    publicationName: "publication",
+    typeOverrides: { 16500: '"active" | "inactive"' },
+  });
+
+  expect(source)
+    .toBe(`// This file was generated by pulse-cdc-pg-codegen. Do not edit.
+import { TableStream } from "@prisma/pulse-cdc-pg";
+
+export type Tables = {
+  "public.events": {
+    row: {
+      payload: unknown | null;
+    };
+    key: never;
+  };
+  "public.users": {
+    row: {
+      id: string;
+      "display name": string | null;
+      created_at: Date;
+      tags: (string | null)[] | null;
+      status: "active" | "inactive" | null;
+    };
+    key: "id";
+  };
+};
+
+export function forTable<K extends keyof Tables & string>(table: K) {
+  return new TableStream<Tables, K>(table);
+}
+`);
+});
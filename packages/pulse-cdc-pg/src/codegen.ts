@@ -0,0 +1,167 @@
+import type { ClientBase } from "pg";
+
+export interface GenerateTableTypesOptions {
+  /** Module to import `TableStream` from. @default "@prisma/pulse-cdc-pg" */
+  importPath?: string;
+  /** Publication to generate the types of the published tables for. */
+  publicationName: string;
+  /**
+   * TypeScript types keyed on the type OID, for types parsed by custom type
+   * parsers. Other types are mapped to the result of the default `pg.types`
+   * parsers.
+   */
+  typeOverrides?: Record<number, string>;
+}
+
+interface ColumnRow {
+  schema: string;
+  table: string;
+  name: string;
+  type_oid: number;
+  not_null: boolean;
+  is_key: boolean;
+  /** Published columns. Available in PG15+. */
+  attnames: string[] | null;
+}
+
+const POINT = "{ x: number; y: number }";
+
+/** Result types of the default `pg.types` text parsers keyed on the OID. */
+const PARSED_TYPES: Record<number, string> = {
+  16: "boolean", // bool
+  17: "Buffer", // bytea
+  20: "string", // int8
+  21: "number", // int2
+  23: "number", // int4
+  26: "number", // oid
+  114: "unknown", // json
+  199: "unknown[]", // json[]
+  600: POINT, // point
+  700: "number", // float4
+  701: "number", // float8
+  718: "{ x: number; y: number; radius: number }", // circle
+  1000: "(boolean | null)[]", // bool[]
+  1001: "(Buffer | null)[]", // bytea[]
+  1005: "(number | null)[]", // int2[]
+  1007: "(number | null)[]", // int4[]
+  1016: "(string | null)[]", // int8[]
+  1017: `(${POINT} | null)[]`, // point[]
+  1021: "(number | null)[]", // float4[]
+  1022: "(number | null)[]", // float8[]
+  1028: "(number | null)[]", // oid[]
+  1082: "Date", // date
+  1114: "Date", // timestamp
+  1115: "(Date | null)[]", // timestamp[]
+  1182: "(Date | null)[]", // date[]
+  1184: "Date", // timestamptz
+  1185: "(Date | null)[]", // timestamptz[]
+  1186: "Record<string, number>", // interval
+  1187: "Record<string, number>[]", // interval[]
+  1231: "(number | null)[]", // numeric[]
+  3802: "unknown", // jsonb
+  3807: "unknown[]", // jsonb[]
+  // arrays of types without parsers are parsed to arrays of strings
+  651: "(string | null)[]", // cidr[]
+  791: "(string | null)[]", // money[]
+  1008: "(string | null)[]", // regproc[]
+  1009: "(string | null)[]", // text[]
+  1014: "(string | null)[]", // bpchar[]
+  1015: "(string | null)[]", // varchar[]
+  1040: "(string | null)[]", // macaddr[]
+  1041: "(string | null)[]", // inet[]
+  1183: "(string | null)[]", // time[]
+  1270: "(string | null)[]", // timetz[]
+  2951: "(string | null)[]", // uuid[]
+  3907: "(string | null)[]", // numrange[]
+};
+
+/** Formats a property name, quoting names that are not identifiers. */
+function property(name: string) {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+const SELECT_PUBLISHED_COLUMNS = `
+  SELECT p.schemaname AS schema, p.tablename AS table, a.attname AS name,
+    a.atttypid AS type_oid, a.attnotnull AS not_null,
+    COALESCE(a.attnum = ANY(i.indkey), false) AS is_key,
+    to_jsonb(p)->'attnames' AS attnames
+  FROM pg_publication_tables p
+  JOIN pg_namespace n ON n.nspname = p.schemaname
+  JOIN pg_class c ON c.relnamespace = n.oid AND c.relname = p.tablename
+  JOIN pg_attribute a ON a.attrelid = c.oid
+  LEFT JOIN pg_index i ON i.indrelid = c.oid AND CASE c.relreplident
+    WHEN 'd' THEN i.indisprimary
+    WHEN 'i' THEN i.indisreplident
+    ELSE false
+  END
+  WHERE p.pubname = $1
+    AND a.attnum > 0 AND NOT a.attisdropped AND a.attgenerated = ''
+  ORDER BY p.schemaname, p.tablename, a.attnum
+`;
+
+/**
+ * Generates TypeScript row types for the tables of a publication by reading
+ * the columns from the database catalog. The generated module exports a
+ * `Tables` type for use with `TableStream`, and a `forTable()` function that
+ * creates a `TableStream` for a table.
+ *
+ * Column types are mapped to the values produced by the type parsers, and
+ * columns without a `NOT NULL` constraint are nullable.
+ */
+export async function generateTableTypes(
+  client: ClientBase,
+  options: GenerateTableTypesOptions,
+) {
+  const {
+    importPath = "@prisma/pulse-cdc-pg",
+    publicationName,
+    typeOverrides = {},
+  } = options;
+
+  const result = await client.query<ColumnRow>(SELECT_PUBLISHED_COLUMNS, [
+    publicationName,
+  ]);
+
+  const tables = new Map<string, ColumnRow[]>();
+  for (const row of result.rows) {
+    if (row.attnames && !row.attnames.includes(row.name)) {
+      continue;
+    }
+    const table = `${row.schema}.${row.table}`;
+    tables.set(table, [...(tables.get(table) ?? []), row]);
+  }
+
+  const lines = [
+    "// This file was generated by pulse-cdc-pg-codegen. Do not edit.",
+    `import { TableStream } from ${JSON.stringify(importPath)};`,
+    "",
+    "export type Tables = {",
+  ];
+  for (const [table, columns] of tables) {
+    const keys = columns.filter((x) => x.is_key).map((x) => x.name);
+    lines.push(`  ${JSON.stringify(table)}: {`, "    row: {");
+    for (const column of columns) {
+      const type =
+        typeOverrides[column.type_oid] ??
+        PARSED_TYPES[column.type_oid] ??
+        "string";
+      const nullable = column.not_null ? "" : " | null";
+      lines.push(`      ${property(column.name)}: ${type}${nullable};`);
+    }
+    lines.push(
+      "    };",
+      `    key: ${keys.length > 0 ? keys.map((x) => JSON.stringify(x)).join(" | ") : "never"};`,
+      "  };",
+    );
+  }
+  lines.push(
+    "};",
+    "",
+    "export function forTable<K extends keyof Tables & string>(table: K) {",
+    "  return new TableStream<Tables, K>(table);",
+    "}",
+    "",
+  );
+
+  return lines.join("\n");
+}
@@ -0,0 +1,30 @@
+import { expect, test } from "vitest";
+import { parseCopyTextRow, readCopyTextRows } from "./copyText.js";
+
+test("parseCopyTextRow", () => {
+  expect(parseCopyTextRow("1\ttext\t\\N\t")).toEqual(["1", "text", null, ""]);
+  expect(parseCopyTextRow("a\\tb\\nc\\\\d\\N")).toEqual(["a\tb\nc\\dN"]);
+  expect(parseCopyTextRow("\\x41\\101\\r\\b\\f\\v")).toEqual(["AA\r\b\f\v"]);
+  expect(parseCopyTextRow("\\\\N")).toEqual(["\\N"]);
+});
+
+test("readCopyTextRows", async () => {
+  const encoder = new TextEncoder();
+  async function* chunks() {
+    yield encoder.encode("1\tcaf");
+    // split a multi-byte character across chunks
+    yield encoder.encode("é").subarray(0, 1);
+    yield new Uint8Array([...encoder.encode("é").subarray(1), 0x0a]);
+    yield encoder.encode("2\t\\N\n3\ta\\nb\n");
+  }
+
+  const rows = [];
+  for await (const row of readCopyTextRows(chunks())) {
+    rows.push(row);
+  }
+  expect(rows).toEqual([
+    ["1", "café"],
+    ["2", null],
+    ["3", "a\nb"],
+  ]);
+});
@@ -0,0 +1,57 @@
+const ESCAPES: Record<string, string> = {
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+  v: "\v",
+};
+
+/**
+ * Parses a single row in the `COPY` text format into the text output of each
+ * column, or `null` for `NULL` columns. The row must not include the trailing
+ * newline.
+ *
+ * @see {@link https://www.postgresql.org/docs/current/sql-copy.html#SQL-COPY-FILE-FORMATS-TEXT PostgreSQL docs}
+ */
+export function parseCopyTextRow(row: string): (string | null)[] {
+  return row.split("\t").map((field) =>
+    field === "\\N"
+      ? null
+      : field.replace(
+          /\\(x[0-9a-fA-F]{1,2}|[0-7]{1,3}|.)/g,
+          (_, seq: string) => {
+            if (seq[0] === "x" && seq.length > 1) {
+              return String.fromCharCode(parseInt(seq.slice(1), 16));
+            }
+            if (/^[0-7]/.test(seq)) {
+              return String.fromCharCode(parseInt(seq, 8));
+            }
+            return ESCAPES[seq] ?? seq;
+          },
+        ),
+  );
+}
+
+/**
+ * Splits chunks of a `COPY ... TO STDOUT` text format stream into rows.
+ * Newlines within values are escaped, so each unescaped newline ends a row.
+ */
+export async function* readCopyTextRows(
+  chunks: AsyncIterable<Uint8Array>,
+): AsyncGenerator<(string | null)[]> {
+  const decoder = new TextDecoder();
+  let pending = "";
+  for await (const chunk of chunks) {
+    pending += decoder.decode(chunk, { stream: true });
+    const rows = pending.split("\n");
+    pending = rows.pop()!;
+    for (const row of rows) {
+      yield parseCopyTextRow(row);
+    }
+  }
+  pending += decoder.decode();
+  if (pending) {
+    yield parseCopyTextRow(pending);
+  }
+}
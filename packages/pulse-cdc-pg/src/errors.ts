@@ -4,3 +4,14 @@ export class PgOutputProtocolError extends Error {
     this.name = "PgOutputProtocolError";
   }
 }
+
+export class WebhookError extends Error {
+  /** The HTTP status of the last response, or `null` if the request failed. */
+  readonly status: number | null;
+
+  constructor(message: string, status: number | null, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "WebhookError";
+    this.status = status;
+  }
+}
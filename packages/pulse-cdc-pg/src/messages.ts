@@ -2,12 +2,21 @@ import type { TypeParser } from "pg-types";
 
 export type PgoutputMessages =
   | PgoutputBegin
+  | PgoutputBeginPrepare
   | PgoutputCommit
+  | PgoutputCommitPrepared
   | PgoutputDelete
   | PgoutputInsert
   | PgoutputMessage
   | PgoutputOrigin
+  | PgoutputPrepare
   | PgoutputRelation
+  | PgoutputRollbackPrepared
+  | PgoutputStreamAbort
+  | PgoutputStreamCommit
+  | PgoutputStreamPrepare
+  | PgoutputStreamStart
+  | PgoutputStreamStop
   | PgoutputTruncate
   | PgoutputType
   | PgoutputUpdate;
@@ -19,6 +28,15 @@ export interface PgoutputBegin {
   xid: number;
 }
 
+export interface PgoutputBeginPrepare {
+  tag: "begin_prepare";
+  prepareLsn: string | null;
+  prepareEndLsn: string | null;
+  prepareTime: Date;
+  xid: number;
+  gid: string;
+}
+
 export interface PgoutputCommit {
   tag: "commit";
   flags: number;
@@ -27,8 +45,25 @@ export interface PgoutputCommit {
   commitTime: Date;
 }
 
+export interface PgoutputCommitPrepared {
+  tag: "commit_prepared";
+  flags: number;
+  commitLsn: string | null;
+  commitEndLsn: string | null;
+  commitTime: Date;
+  xid: number;
+  gid: string;
+}
+
 export interface PgoutputDelete {
   tag: "delete";
+  /** Transaction ID, only present within a streamed transaction. */
+  xid?: number;
+  /**
+   * Name of the replication origin of the transaction, only present when the
+   * transaction has an origin.
+   */
+  origin?: string;
   relation: PgoutputRelation;
   key: Record<string, unknown> | null;
   old: Record<string, unknown> | null;
@@ -36,12 +71,26 @@ export interface PgoutputDelete {
 
 export interface PgoutputInsert {
   tag: "insert";
+  /** Transaction ID, only present within a streamed transaction. */
+  xid?: number;
+  /**
+   * Name of the replication origin of the transaction, only present when the
+   * transaction has an origin.
+   */
+  origin?: string;
   relation: PgoutputRelation;
   new: Record<string, unknown>;
 }
 
 export interface PgoutputMessage {
   tag: "message";
+  /** Transaction ID, only present within a streamed transaction. */
+  xid?: number;
+  /**
+   * Name of the replication origin of the transaction, only present when the
+   * transaction has an origin.
+   */
+  origin?: string;
   flags: number;
   transactional: boolean;
   messageLsn: string | null;
@@ -55,18 +104,98 @@ export interface PgoutputOrigin {
   originName: string;
 }
 
+export interface PgoutputPrepare {
+  tag: "prepare";
+  flags: number;
+  prepareLsn: string | null;
+  prepareEndLsn: string | null;
+  prepareTime: Date;
+  xid: number;
+  gid: string;
+}
+
+/**
+ * Row read from a table while taking the initial snapshot of a replication
+ * slot. Not sent by pgoutput, but shaped the same as `PgoutputInsert`.
+ */
+export interface PgoutputRead {
+  tag: "read";
+  relation: PgoutputRelation;
+  new: Record<string, unknown>;
+}
+
 export interface PgoutputRelation {
   tag: "relation";
+  /** Transaction ID, only present within a streamed transaction. */
+  xid?: number;
   oid: number;
   schema: string;
   name: string;
   replicaIdentity: "default" | "nothing" | "full" | "index";
   columns: RelationColumn[];
   keyColumns: string[];
+  /**
+   * Version of the relation's shape, starting at 1 and incremented each time
+   * the relation is sent with different columns, name or replica identity.
+   */
+  version: number;
+}
+
+export interface PgoutputRollbackPrepared {
+  tag: "rollback_prepared";
+  flags: number;
+  prepareEndLsn: string | null;
+  rollbackEndLsn: string | null;
+  prepareTime: Date;
+  rollbackTime: Date;
+  xid: number;
+  gid: string;
+}
+
+export interface PgoutputStreamAbort {
+  tag: "stream_abort";
+  xid: number;
+  subXid: number;
+}
+
+export interface PgoutputStreamCommit {
+  tag: "stream_commit";
+  xid: number;
+  flags: number;
+  commitLsn: string | null;
+  commitEndLsn: string | null;
+  commitTime: Date;
+}
+
+export interface PgoutputStreamPrepare {
+  tag: "stream_prepare";
+  flags: number;
+  prepareLsn: string | null;
+  prepareEndLsn: string | null;
+  prepareTime: Date;
+  xid: number;
+  gid: string;
+}
+
+export interface PgoutputStreamStart {
+  tag: "stream_start";
+  xid: number;
+  firstSegment: boolean;
+}
+
+export interface PgoutputStreamStop {
+  tag: "stream_stop";
 }
 
 export interface PgoutputTruncate {
   tag: "truncate";
+  /** Transaction ID, only present within a streamed transaction. */
+  xid?: number;
+  /**
+   * Name of the replication origin of the transaction, only present when the
+   * transaction has an origin.
+   */
+  origin?: string;
   cascade: boolean;
   restartIdentity: boolean;
   relations: PgoutputRelation[];
@@ -74,6 +203,8 @@ export interface PgoutputTruncate {
 
 export interface PgoutputType {
   tag: "type";
+  /** Transaction ID, only present within a streamed transaction. */
+  xid?: number;
   typeOid: number;
   typeSchema: string;
   typeName: string;
@@ -81,10 +212,24 @@ export interface PgoutputType {
 
 export interface PgoutputUpdate {
   tag: "update";
+  /** Transaction ID, only present within a streamed transaction. */
+  xid?: number;
+  /**
+   * Name of the replication origin of the transaction, only present when the
+   * transaction has an origin.
+   */
+  origin?: string;
   relation: PgoutputRelation;
   key: Record<string, unknown> | null;
   old: Record<string, unknown> | null;
   new: Record<string, unknown>;
+  /**
+   * Columns of `new` that are `undefined` because they contain TOASTed values
+   * that were not changed, and so were not sent by the server. Only present
+   * when there are such columns. With `REPLICA IDENTITY FULL`, the values are
+   * taken from `old` instead.
+   */
+  unchangedColumns?: string[];
 }
 
 export interface RelationColumn {
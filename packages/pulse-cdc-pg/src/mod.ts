@@ -1,7 +1,155 @@
+export {
+  BackfillStream,
+  type BackfillMessage,
+  type BackfillStreamInit,
+  type SnapshotProgress,
+  type SnapshotProgressStore,
+  type SnapshotWalMessage,
+} from "./BackfillStream.js";
+export { binaryReceivers, type BinaryReceiver } from "./binaryReceivers.js";
+export type { CheckpointStore } from "./CheckpointStore.js";
+export {
+  generateTableTypes,
+  type GenerateTableTypesOptions,
+} from "./codegen.js";
+export {
+  DebeziumStream,
+  type DebeziumEnvelope,
+  type DebeziumEvent,
+  type DebeziumSchema,
+  type DebeziumSource,
+  type DebeziumStreamInit,
+} from "./DebeziumStream.js";
 export * from "./errors.js";
-export { LogicalReplicationStream } from "./LogicalReplicationStream.js";
+export {
+  FakeReplicationServer,
+  type FakeReplicationServerInit,
+  type ReplicationStart,
+} from "./FakeReplicationServer.js";
+export { FileCheckpointStore } from "./FileCheckpointStore.js";
+export {
+  FilterStream,
+  type FilterChange,
+  type FilterStreamInit,
+  type RowPredicate,
+} from "./FilterStream.js";
+export {
+  LogicalReplicationStream,
+  type LogicalReplicationStreamEventMap,
+  type LogicalReplicationStreamInit,
+} from "./LogicalReplicationStream.js";
+export { Lsn, type LsnLike } from "./Lsn.js";
+export type * from "./messages.js";
+export {
+  jsonCodec,
+  MessageChannel,
+  MessageChannels,
+  textCodec,
+  type ChannelMessage,
+  type EmitMessageOptions,
+  type MessageCodec,
+} from "./MessageChannels.js";
+export {
+  MessageDeserializer,
+  MessageSerializer,
+  type JsonValue,
+  type MessageDeserializerInit,
+  type MessageSerializerInit,
+  type SerializedMessage,
+} from "./MessageSerializer.js";
+export {
+  OriginFilterStream,
+  type OriginFilterStreamInit,
+} from "./OriginFilterStream.js";
+export {
+  Outbox,
+  OutboxRelay,
+  type OutboxEnvelope,
+  type OutboxInit,
+  type OutboxMessage,
+  type OutboxPublisher,
+  type OutboxRelayInit,
+} from "./Outbox.js";
+export {
+  PgCheckpointStore,
+  type PgCheckpointStoreInit,
+} from "./PgCheckpointStore.js";
 export { PgoutputDecoder } from "./PgoutputDecoder.js";
+export {
+  PgoutputEncoder,
+  type PgoutputEncoderInit,
+  type TextFormatter,
+} from "./PgoutputEncoder.js";
 export {
   PgOutputDecoderStream,
+  type PgOutputDecoderStreamInit,
   type WalPgoutputMessage,
 } from "./PgoutputDecoderStream.js";
+export {
+  diffRelations,
+  type ColumnChange,
+  type RelationDiff,
+} from "./relationDiff.js";
+export { ReplayStream, type ReplayStreamInit } from "./ReplayStream.js";
+export {
+  ReplicationAdmin,
+  type CreatePublicationOptions,
+  type CreateReplicationSlotOptions,
+  type PublicationOperation,
+  type PublicationTable,
+  type PublicationTarget,
+  type ReplicationSlot,
+} from "./ReplicationAdmin.js";
+export {
+  ReplicationMetrics,
+  type MetricsMeter,
+  type ReplicationMetricsInit,
+  type ReplicationMetricsSnapshot,
+  type TableOperation,
+} from "./ReplicationMetrics.js";
+export {
+  ReplicationRecorder,
+  type ReplicationRecorderInit,
+} from "./ReplicationRecorder.js";
+export {
+  ReplicationSlotMonitor,
+  type ReplicationSlotMonitorEventMap,
+  type ReplicationSlotMonitorInit,
+  type SlotWarningReason,
+} from "./ReplicationSlotMonitor.js";
+export {
+  SchemaChangeStream,
+  type SchemaChange,
+  type SchemaChangeWalMessage,
+} from "./SchemaChangeStream.js";
+export {
+  TableStream,
+  type TableChange,
+  type TableDefinition,
+  type TableDelete,
+  type TableInsert,
+  type TableMap,
+  type TableRead,
+  type TableUpdate,
+  type TableWalMessage,
+} from "./TableStream.js";
+export {
+  ToastRefetchStream,
+  type ToastRefetchStreamInit,
+} from "./ToastRefetchStream.js";
+export {
+  TransactionStream,
+  type Transaction,
+  type TransactionChange,
+  type TransactionStreamInit,
+} from "./TransactionStream.js";
+export {
+  WalMessageEncoder,
+  type WalData,
+  type WalKeepalive,
+} from "./WalMessageEncoder.js";
+export {
+  WebhookSink,
+  type WebhookItem,
+  type WebhookSinkInit,
+} from "./WebhookSink.js";
@@ -0,0 +1,85 @@
+import type { PgoutputRelation, RelationColumn } from "./messages.js";
+
+export type ColumnChange =
+  | { kind: "added"; column: RelationColumn }
+  | { kind: "dropped"; column: RelationColumn }
+  | { kind: "renamed"; previous: RelationColumn; column: RelationColumn }
+  /** The type or type modifier of the column changed. */
+  | { kind: "retyped"; previous: RelationColumn; column: RelationColumn }
+  /** The column was added to or removed from the replica identity key. */
+  | { kind: "key_changed"; previous: RelationColumn; column: RelationColumn };
+
+export interface RelationDiff {
+  /** The schema or name of the relation changed. */
+  renamed: boolean;
+  replicaIdentityChanged: boolean;
+  columns: ColumnChange[];
+}
+
+function isKey(column: RelationColumn) {
+  return (column.flags & 0b1) !== 0;
+}
+
+function isSameType(a: RelationColumn, b: RelationColumn) {
+  return a.typeOid === b.typeOid && a.typeMod === b.typeMod;
+}
+
+/**
+ * Compares two versions of a relation and returns the differences, or `null`
+ * if the relations have the same shape.
+ *
+ * pgoutput does not identify columns other than by name, so a column is
+ * considered renamed when a dropped and an added column of the same type have
+ * the same position. Otherwise, the columns are reported as dropped and added.
+ */
+export function diffRelations(
+  previous: PgoutputRelation,
+  next: PgoutputRelation,
+): RelationDiff | null {
+  const columns: ColumnChange[] = [];
+
+  const previousByName = new Map(previous.columns.map((x) => [x.name, x]));
+  const nextByName = new Map(next.columns.map((x) => [x.name, x]));
+
+  for (const [i, column] of next.columns.entries()) {
+    const before = previousByName.get(column.name);
+    if (!before) {
+      const candidate = previous.columns[i];
+      if (
+        candidate &&
+        !nextByName.has(candidate.name) &&
+        isSameType(candidate, column)
+      ) {
+        columns.push({ kind: "renamed", previous: candidate, column });
+      } else {
+        columns.push({ kind: "added", column });
+      }
+      continue;
+    }
+    if (!isSameType(before, column)) {
+      columns.push({ kind: "retyped", previous: before, column });
+    }
+    if (isKey(before) !== isKey(column)) {
+      columns.push({ kind: "key_changed", previous: before, column });
+    }
+  }
+
+  const renamedFrom = new Set(
+    columns.flatMap((x) => (x.kind === "renamed" ? [x.previous.name] : [])),
+  );
+  for (const column of previous.columns) {
+    if (!nextByName.has(column.name) && !renamedFrom.has(column.name)) {
+      columns.push({ kind: "dropped", column });
+    }
+  }
+
+  const renamed =
+    previous.schema !== next.schema || previous.name !== next.name;
+  const replicaIdentityChanged =
+    previous.replicaIdentity !== next.replicaIdentity;
+
+  if (!renamed && !replicaIdentityChanged && columns.length === 0) {
+    return null;
+  }
+  return { renamed, replicaIdentityChanged, columns };
+}
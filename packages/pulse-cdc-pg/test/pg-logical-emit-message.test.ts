@@ -1,6 +1,12 @@
 import { Client } from "pg";
 import { assert, beforeAll, expect, test, vi } from "vitest";
-import { LogicalReplicationStream, PgOutputDecoderStream } from "../src/mod.js";
+import {
+  jsonCodec,
+  LogicalReplicationStream,
+  MessageChannel,
+  MessageChannels,
+  PgOutputDecoderStream,
+} from "../src/mod.js";
 import { PgReplicationUtils } from "./test-utils.js";
 
 const CONNECTION_STRING =
@@ -80,3 +86,45 @@ test("supports custom messages in WAL", async () => {
     await client.end();
   }
 });
+
+test("routes custom messages to typed channels", async () => {
+  const client = new Client({ connectionString: CONNECTION_STRING });
+  try {
+    await client.connect();
+
+    const channels = new MessageChannels();
+    const channel = new MessageChannel(
+      crypto.randomUUID(),
+      jsonCodec<{ id: number }>(),
+    );
+    const reader = channels.subscribe(channel).getReader();
+    const replication = new LogicalReplicationStream({
+      clientConfig: { connectionString: CONNECTION_STRING },
+      includeCustomMessages: true,
+      protocolVersion: PgOutputDecoderStream.PROTOCOL_VERSION,
+      publicationName: PUBLICATION,
+      slotName: SLOT,
+    });
+    const piped = replication
+      .pipeThrough(new PgOutputDecoderStream())
+      .pipeTo(channels)
+      .catch(() => {});
+    try {
+      const lsn = await channel.emit(client, { id: 1 });
+
+      const { value } = await reader.read();
+      expect(value).toMatchObject({
+        prefix: channel.prefix,
+        value: { id: 1 },
+        transactional: true,
+        messageLsn: lsn,
+      });
+    } finally {
+      await reader.cancel();
+      await replication.dispose();
+      await piped;
+    }
+  } finally {
+    await client.end();
+  }
+});
@@ -1,9 +1,90 @@
 import type { Client } from "pg";
+import {
+  ReplicationAdmin,
+  type PgoutputMessages,
+  type PgoutputRelation,
+  type RelationColumn,
+  type WalPgoutputMessage,
+} from "../src/mod.js";
+
+export const systemTime = new Date("2024-01-01T00:00:00Z");
+
+/** Wraps a decoded message with `systemTime` and the LSN `lsn`. */
+export function wal<T extends PgoutputMessages>(
+  message: T,
+  lsn = "0/10",
+): Extract<WalPgoutputMessage, { type: "waldata" }> & { message: T } {
+  return {
+    type: "waldata",
+    currentLsn: lsn,
+    messageLsn: lsn,
+    systemTime,
+    message,
+  };
+}
+
+/** Text column parsed with `String`, flagged as a key column when named `id`. */
+export function column(
+  name: string,
+  typeOid = 25,
+  init: Partial<RelationColumn> = {},
+): RelationColumn {
+  return {
+    flags: name === "id" ? 1 : 0,
+    name,
+    typeOid,
+    typeMod: -1,
+    typeSchema: null,
+    typeName: null,
+    parser: String,
+    ...init,
+  };
+}
+
+/** Relation in the public schema without columns, keyed on `id`. */
+export function relation(
+  name: string,
+  init: Partial<PgoutputRelation> = {},
+): PgoutputRelation {
+  return {
+    tag: "relation",
+    oid: 16384,
+    schema: "public",
+    name,
+    replicaIdentity: "default",
+    columns: [],
+    keyColumns: ["id"],
+    version: 1,
+    ...init,
+  };
+}
+
+/** Writes messages through a transform stream and reads all of its output. */
+export async function collect<I, O>(
+  stream: ReadableWritablePair<O, I>,
+  messages: I[],
+) {
+  const readable = new ReadableStream<I>({
+    start(controller) {
+      messages.forEach((message) => controller.enqueue(message));
+      controller.close();
+    },
+  });
+
+  const output: O[] = [];
+  const reader = readable.pipeThrough(stream).getReader();
+  for (let next = await reader.read(); !next.done; next = await reader.read()) {
+    output.push(next.value);
+  }
+  return output;
+}
 
 export class PgReplicationUtils {
+  readonly #admin;
   readonly #client;
 
   constructor(client: Client) {
+    this.#admin = new ReplicationAdmin(client);
     this.#client = client;
   }
 
@@ -13,34 +94,26 @@ export class PgReplicationUtils {
       [name],
     );
     if (exists.rows.length === 0) {
-      // this cannot be parameterized because it's an object name
-      await this.#client.query(`CREATE PUBLICATION "${name}" FOR ALL TABLES`);
+      await this.#admin.createPublication(name, { allTables: true });
     }
   }
 
-  async createReplicationSlot(name: string) {
-    const exists = await this.#client.query<{ lsn: string }>(
-      `SELECT restart_lsn AS lsn FROM pg_replication_slots WHERE slot_name = $1`,
-      [name],
-    );
-    if (exists.rows.length === 0) {
-      await this.#client.query<{ lsn: string }>(
-        `SELECT lsn FROM pg_create_logical_replication_slot($1, 'pgoutput')`,
-        [name],
-      );
+  async createReplicationSlot(
+    name: string,
+    { twoPhase = false }: { twoPhase?: boolean } = {},
+  ) {
+    const exists = await this.#admin.getReplicationSlot(name);
+    if (!exists) {
+      await this.#admin.createReplicationSlot(name, { twoPhase });
     }
   }
 
   async dropPublication(name: string) {
-    // this cannot be parameterized because it's an object name
-    await this.#client.query(`DROP PUBLICATION IF EXISTS "${name}"`);
+    await this.#admin.dropPublication(name, { ifExists: true });
   }
 
   async dropReplicationSlot(name: string) {
-    await this.#client.query(
-      `SELECT pg_drop_replication_slot(slot_name) FROM pg_replication_slots WHERE slot_name = $1`,
-      [name],
-    );
+    await this.#admin.dropReplicationSlot(name, { ifExists: true });
   }
 
   async getCurrentLSN() {
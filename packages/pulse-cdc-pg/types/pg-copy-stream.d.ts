@@ -1,5 +1,10 @@
 declare module "pg-copy-streams" {
-  import { Duplex, DuplexOptions } from "node:stream";
+  import {
+    Duplex,
+    DuplexOptions,
+    Readable,
+    ReadableOptions,
+  } from "node:stream";
   import { Submittable } from "pg";
 
   export function both(
@@ -11,4 +16,11 @@ declare module "pg-copy-streams" {
     rowCount: number;
     submit(connection: Connection): void;
   }
+
+  export function to(txt: string, options?: ReadableOptions): CopyToStreamQuery;
+  export class CopyToStreamQuery extends Readable implements Submittable {
+    text: string;
+    rowCount: number;
+    submit(connection: Connection): void;
+  }
 }